@@ -0,0 +1,108 @@
+import type { HtmlAsset } from "./types.js";
+
+const MIME_TYPES: Record<string, string> = {
+  css: "text/css",
+  js: "text/javascript",
+  html: "text/html",
+  svg: "image/svg+xml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  ico: "image/x-icon",
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  json: "application/json",
+  xml: "application/xml",
+};
+
+/** @internal — guess a MIME type from a file extension. */
+export function guessMimeType(path: string): string {
+  const ext = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return MIME_TYPES[ext] ?? "application/octet-stream";
+}
+
+/**
+ * @internal — normalize a relative reference or asset key for comparison:
+ * drops query/fragment, leading "./" and "/", and resolves "..".
+ */
+export function normalizeAssetPath(ref: string): string {
+  const path = ref.split(/[?#]/, 1)[0].replace(/\\/g, "/");
+  const out: string[] = [];
+  for (const seg of path.split("/")) {
+    if (seg === "" || seg === ".") continue;
+    if (seg === "..") out.pop();
+    else out.push(safeDecode(seg));
+  }
+  return out.join("/");
+}
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/** True for references that the server cannot resolve on its own. */
+function isRelative(ref: string): boolean {
+  return ref.length > 0 && !ref.startsWith("#") && !ref.startsWith("//") && !/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(ref);
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&amp;/g, "&").replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+}
+
+/** Scan CSS text for `url(...)` and `@import "..."` references. */
+function cssReferences(css: string): string[] {
+  const refs: string[] = [];
+  for (const m of css.matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g)) refs.push(m[2].trim());
+  for (const m of css.matchAll(/@import\s+(['"])([^'"]+)\1/g)) refs.push(m[2]);
+  return refs;
+}
+
+/**
+ * Find relative URLs referenced by an HTML document: `<link href>`,
+ * `src`/`srcset` attributes, and `url(...)` in inline styles.
+ * Absolute, protocol-relative, data: and fragment URLs are ignored.
+ */
+export function findAssetReferences(html: string): string[] {
+  const refs: string[] = [];
+  for (const m of html.matchAll(/<link\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1/gi)) refs.push(m[2]);
+  for (const m of html.matchAll(/\bsrc\s*=\s*(["'])(.*?)\1/gi)) refs.push(m[2]);
+  for (const m of html.matchAll(/\bsrcset\s*=\s*(["'])(.*?)\1/gi)) {
+    for (const candidate of m[2].split(",")) refs.push(candidate.trim().split(/\s+/, 1)[0]);
+  }
+  refs.push(...cssReferences(html));
+
+  const seen = new Set<string>();
+  for (const ref of refs.map((r) => decodeEntities(r.trim()))) {
+    if (isRelative(ref)) seen.add(normalizeAssetPath(ref));
+  }
+  seen.delete("");
+  return [...seen];
+}
+
+/**
+ * List references from the HTML, and from attached CSS files, that have no
+ * matching asset. Paths are compared after normalization.
+ */
+export function missingAssets(html: string, assets: Record<string, HtmlAsset>): string[] {
+  const available = new Set(Object.keys(assets).map(normalizeAssetPath));
+  const refs = new Set(findAssetReferences(html));
+  const decoder = new TextDecoder();
+  for (const [path, asset] of Object.entries(assets)) {
+    if ((asset.mimeType ?? guessMimeType(path)) !== "text/css") continue;
+    const dir = normalizeAssetPath(path).split("/").slice(0, -1).join("/");
+    for (const ref of cssReferences(decoder.decode(asset.data))) {
+      // CSS URLs resolve relative to the stylesheet, not the document.
+      if (isRelative(ref)) refs.add(normalizeAssetPath(ref.startsWith("/") ? ref : `${dir}/${ref}`));
+    }
+  }
+  return [...refs].filter((ref) => !available.has(ref));
+}
@@ -0,0 +1,262 @@
+import { ForgeValidationError } from "./error.js";
+import { BarcodeType } from "./types.js";
+import type { ErrorCorrection, ValidationIssue } from "./types.js";
+
+/** Total digits, including the check digit, for fixed-length GS1 symbologies. */
+const GTIN_LENGTHS: Partial<Record<string, number>> = {
+  [BarcodeType.Ean13]: 13,
+  [BarcodeType.Ean8]: 8,
+  [BarcodeType.UpcA]: 12,
+};
+
+const CHARSETS: Partial<Record<string, { pattern: RegExp; description: string }>> = {
+  [BarcodeType.Code39]: { pattern: /^[0-9A-Z \-.$/+%]*$/, description: "0-9, A-Z, space and - . $ / + %" },
+  [BarcodeType.Code93]: { pattern: /^[0-9A-Z \-.$/+%]*$/, description: "0-9, A-Z, space and - . $ / + %" },
+  [BarcodeType.Codabar]: {
+    pattern: /^(?:[A-D][0-9\-$:/.+]*[A-D]|[0-9\-$:/.+]*)$/,
+    description: "0-9 and - $ : / . +, optionally wrapped in A-D start/stop characters",
+  },
+  [BarcodeType.Code11]: { pattern: /^[0-9-]*$/, description: "0-9 and -" },
+  [BarcodeType.Code128]: { pattern: /^[\x00-\x7f]*$/, description: "ASCII characters" },
+};
+
+/** Maximum data length per encoding mode at the largest symbol size. */
+interface Capacity {
+  numeric: number;
+  alphanumeric: number;
+  byte: number;
+}
+
+/** QR version 40 per error correction level. */
+const QR_CAPACITY: Record<string, Capacity> = {
+  L: { numeric: 7089, alphanumeric: 4296, byte: 2953 },
+  M: { numeric: 5596, alphanumeric: 3391, byte: 2331 },
+  Q: { numeric: 3993, alphanumeric: 2420, byte: 1663 },
+  H: { numeric: 3057, alphanumeric: 1852, byte: 1273 },
+};
+
+/** DataMatrix 144x144. */
+const DATAMATRIX_CAPACITY: Capacity = { numeric: 3116, alphanumeric: 2335, byte: 1556 };
+
+const KNOWN_TYPES = new Set<string>(Object.values(BarcodeType));
+
+/**
+ * Compute the GS1 mod-10 check digit for a digit string without its check
+ * digit (EAN-13, EAN-8, UPC-A, ITF-14, GTIN-14, SSCC).
+ */
+export function gs1CheckDigit(digits: string): string {
+  if (!/^\d+$/.test(digits)) {
+    throw new ForgeValidationError([{ path: "data", rule: "format", message: "check digits need digits only" }]);
+  }
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Weights alternate 3, 1, 3, ... starting from the rightmost digit.
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * @internal — append the check digit when `data` is an EAN-13, EAN-8 or
+ * UPC-A number one digit short; anything else is returned unchanged.
+ */
+export function withCheckDigit(type: string, data: string): string {
+  const length = GTIN_LENGTHS[type];
+  if (length === undefined || data.length !== length - 1 || !/^\d+$/.test(data)) return data;
+  return data + gs1CheckDigit(data);
+}
+
+function encodedLength(data: string, capacity: Capacity): { length: number; max: number; mode: string } {
+  if (/^\d*$/.test(data)) return { length: data.length, max: capacity.numeric, mode: "numeric" };
+  if (/^[0-9A-Z $%*+\-./:]*$/.test(data)) {
+    return { length: data.length, max: capacity.alphanumeric, mode: "alphanumeric" };
+  }
+  return { length: new TextEncoder().encode(data).length, max: capacity.byte, mode: "byte" };
+}
+
+/**
+ * Check barcode data against the rules of its symbology: length and check
+ * digit for EAN/UPC, character sets for Code 39/93/128, Codabar and Code 11,
+ * even length for ITF, and capacity for QR (at the given error correction
+ * level, default "L") and DataMatrix. With `gs1`, the data must be a GS1
+ * element string for Code 128, DataMatrix or QR. Issue paths are relative to
+ * the barcode ("data", "type", "error_correction", "gs1").
+ */
+export function validateBarcode(
+  type: BarcodeType | string,
+  data: string,
+  errorCorrection?: ErrorCorrection,
+  gs1?: boolean,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const issue = (rule: string, message: string) => issues.push({ path: "data", rule, message });
+  const ecIssue = (rule: string, message: string) => issues.push({ path: "error_correction", rule, message });
+
+  if (!KNOWN_TYPES.has(type)) {
+    return [{ path: "type", rule: "unknown", message: `unknown barcode type "${type}"` }];
+  }
+  if (data === "") {
+    issue("required", "barcode data is empty");
+    return issues;
+  }
+
+  const length = GTIN_LENGTHS[type];
+  if (length !== undefined) {
+    if (!/^\d+$/.test(data) || data.length !== length) {
+      issue("format", `${type} needs ${length} digits (or ${length - 1} with autoCheckDigit), got "${data}"`);
+    } else {
+      const expected = gs1CheckDigit(data.slice(0, -1));
+      if (data.at(-1) !== expected) issue("format", `check digit of "${data}" should be ${expected}`);
+    }
+  }
+
+  const charset = CHARSETS[type];
+  if (charset && !charset.pattern.test(data)) issue("format", `${type} allows only ${charset.description}`);
+
+  if (type === BarcodeType.Itf && !/^(?:\d\d)+$/.test(data)) {
+    issue("format", `ITF needs an even number of digits, got "${data}"`);
+  }
+
+  if (gs1) {
+    if (!GS1_TYPES.has(type)) {
+      issues.push({ path: "gs1", rule: "conflict", message: `${type} cannot carry GS1 application identifiers` });
+    }
+    if (!/^(?:\(\d{2,4}\)[^()]+)+$/.test(data)) issue("format", `GS1 data must be "(AI)value..." as built by gs1()`);
+  }
+
+  if (errorCorrection !== undefined) {
+    if (type === BarcodeType.Qr) {
+      if (typeof errorCorrection !== "string" || !(errorCorrection in QR_CAPACITY)) {
+        ecIssue("format", `QR error correction must be "L", "M", "Q" or "H", got ${JSON.stringify(errorCorrection)}`);
+      }
+    } else if (type === BarcodeType.Aztec) {
+      if (typeof errorCorrection !== "number" || !(errorCorrection >= 5 && errorCorrection <= 95)) {
+        ecIssue("range", `Aztec error correction must be a percentage between 5 and 95, got ${JSON.stringify(errorCorrection)}`);
+      }
+    } else {
+      ecIssue("conflict", `${type} has no error correction setting; only QR and Aztec do`);
+    }
+  }
+
+  const qrLevel = typeof errorCorrection === "string" && errorCorrection in QR_CAPACITY ? errorCorrection : "L";
+  const capacity =
+    type === BarcodeType.Qr ? QR_CAPACITY[qrLevel] : type === BarcodeType.DataMatrix ? DATAMATRIX_CAPACITY : undefined;
+  if (capacity) {
+    const { length: used, max, mode } = encodedLength(data, capacity);
+    if (used > max) {
+      const level = type === BarcodeType.Qr ? ` at level ${qrLevel}` : "";
+      issue("range", `${used} ${mode} characters exceed the ${type} capacity of ${max}${level}`);
+    }
+  }
+  return issues;
+}
+
+/** Fixed digit count or maximum length of a GS1 application identifier's value. */
+interface Gs1Ai {
+  title: string;
+  numeric: boolean;
+  length?: number;
+  maxLength?: number;
+  checkDigit?: boolean;
+  date?: boolean;
+}
+
+const GS1_AIS: Record<string, Gs1Ai> = {
+  "00": { title: "SSCC", numeric: true, length: 18, checkDigit: true },
+  "01": { title: "GTIN", numeric: true, length: 14, checkDigit: true },
+  "02": { title: "CONTENT", numeric: true, length: 14, checkDigit: true },
+  "10": { title: "BATCH/LOT", numeric: false, maxLength: 20 },
+  "11": { title: "PROD DATE", numeric: true, length: 6, date: true },
+  "13": { title: "PACK DATE", numeric: true, length: 6, date: true },
+  "15": { title: "BEST BEFORE", numeric: true, length: 6, date: true },
+  "17": { title: "USE BY", numeric: true, length: 6, date: true },
+  "20": { title: "VARIANT", numeric: true, length: 2 },
+  "21": { title: "SERIAL", numeric: false, maxLength: 20 },
+  "30": { title: "VAR. COUNT", numeric: true, maxLength: 8 },
+  "37": { title: "COUNT", numeric: true, maxLength: 8 },
+  "400": { title: "ORDER NUMBER", numeric: false, maxLength: 30 },
+  "401": { title: "GINC", numeric: false, maxLength: 30 },
+  "402": { title: "GSIN", numeric: true, length: 17, checkDigit: true },
+  "410": { title: "SHIP TO LOC", numeric: true, length: 13, checkDigit: true },
+  "413": { title: "SHIP FOR LOC", numeric: true, length: 13, checkDigit: true },
+  "414": { title: "LOC No.", numeric: true, length: 13, checkDigit: true },
+  "420": { title: "SHIP TO POST", numeric: false, maxLength: 20 },
+  "421": { title: "SHIP TO POST", numeric: false, maxLength: 12 },
+};
+
+for (let d = 0; d <= 5; d++) {
+  GS1_AIS[`310${d}`] = { title: "NET WEIGHT (kg)", numeric: true, length: 6 };
+  GS1_AIS[`330${d}`] = { title: "GROSS WEIGHT (kg)", numeric: true, length: 6 };
+}
+
+/** Symbologies that can carry GS1 application identifiers. */
+const GS1_TYPES = new Set<string>([BarcodeType.Code128, BarcodeType.DataMatrix, BarcodeType.Qr]);
+
+/** One GS1 element: an application identifier and its value. */
+export interface Gs1Element {
+  ai: string;
+  value: string;
+}
+
+/**
+ * Build a GS1 element string such as "(00)340123450000000000(410)4012345000009"
+ * for a GS1-128 (Code 128), GS1 DataMatrix or GS1 QR barcode. An array keeps
+ * its order; an object is emitted in AI order (JavaScript reorders numeric
+ * keys). Values are checked against their AI's length and format, and a
+ * missing check digit on SSCC/GTIN/GLN values is computed.
+ * Throws ForgeValidationError listing every problem.
+ */
+export function gs1(
+  elements: Gs1Element[] | Record<string, string>,
+  type: BarcodeType = BarcodeType.Code128,
+): string {
+  const list = Array.isArray(elements)
+    ? elements
+    : Object.keys(elements)
+        .sort()
+        .map((ai) => ({ ai, value: elements[ai] }));
+  const issues: ValidationIssue[] = [];
+  const issue = (path: string, rule: string, message: string) => issues.push({ path, rule, message });
+
+  if (!GS1_TYPES.has(type)) issue("type", "conflict", `${type} cannot carry GS1 application identifiers`);
+  if (list.length === 0) issue("elements", "required", "at least one element is required");
+
+  let out = "";
+  for (const { ai, value: raw } of list) {
+    const def = GS1_AIS[ai];
+    const path = `(${ai})`;
+    if (!def) {
+      issue(path, "unknown", `unsupported application identifier (${ai})`);
+      continue;
+    }
+    let value = raw;
+    if (def.checkDigit && def.length !== undefined && value.length === def.length - 1 && /^\d+$/.test(value)) {
+      value += gs1CheckDigit(value);
+    }
+    if (def.numeric && !/^\d+$/.test(value)) {
+      issue(path, "format", `${def.title} must be numeric, got "${raw}"`);
+    } else if (!/^[\x21-\x22\x25-\x2f\x30-\x3f\x41-\x5a\x5f\x61-\x7a]+$/.test(value)) {
+      issue(path, "format", `${def.title} contains characters outside the GS1 character set`);
+    } else if (def.length !== undefined && value.length !== def.length) {
+      issue(path, "format", `${def.title} needs ${def.length} digits, got ${raw.length}`);
+    } else if (def.maxLength !== undefined && value.length > def.maxLength) {
+      issue(path, "range", `${def.title} allows at most ${def.maxLength} characters, got ${value.length}`);
+    } else if (def.checkDigit && value.at(-1) !== gs1CheckDigit(value.slice(0, -1))) {
+      issue(path, "format", `check digit of ${def.title} "${value}" should be ${gs1CheckDigit(value.slice(0, -1))}`);
+    } else if (def.date && !isGs1Date(value)) {
+      issue(path, "format", `${def.title} must be a YYMMDD date, got "${value}"`);
+    }
+    out += `(${ai})${value}`;
+  }
+
+  if (issues.length > 0) throw new ForgeValidationError(issues);
+  return out;
+}
+
+/** YYMMDD; a day of "00" means the end of the month. */
+function isGs1Date(value: string): boolean {
+  const month = Number(value.slice(2, 4));
+  const day = Number(value.slice(4, 6));
+  return month >= 1 && month <= 12 && day <= 31;
+}
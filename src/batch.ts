@@ -0,0 +1,111 @@
+import { ForgeAbortError, ForgeConnectionError, ForgeError } from "./error.js";
+import type { RenderRequestBuilder } from "./index.js";
+import type { RenderResponse, RequestPriority } from "./types.js";
+
+/** Outcome of one item in a batch, tagged with its input position. */
+export type BatchResult =
+  | { index: number; ok: true; response: RenderResponse }
+  | { index: number; ok: false; error: ForgeError };
+
+/** Running totals reported after each finished item. */
+export interface BatchProgress {
+  /** Number of items in the batch. */
+  total: number;
+  /** Items finished so far (succeeded + failed). */
+  completed: number;
+  succeeded: number;
+  failed: number;
+  /** The item that just finished. */
+  result: BatchResult;
+}
+
+/** Options for `ForgeClient.renderBatch()` and `renderBatchIterator()`. */
+export interface BatchOptions {
+  /** Maximum number of requests in flight at once (default: 4); NaN is rejected with ForgeError. */
+  concurrency?: number;
+  /** Stop starting new items after the first failure (default: false). */
+  stopOnError?: boolean;
+  /** Called after each item finishes. */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Cancels the batch: in-flight requests are aborted and no further items are started. */
+  signal?: AbortSignal;
+  /** HTTP timeout in milliseconds for each request, overriding the client's. */
+  timeout?: number;
+  /** Queue priority of each request (default: "normal"); e.g. "low" for background batches. */
+  priority?: RequestPriority;
+}
+
+/** @internal — wrap anything thrown by a render into a ForgeError. */
+export function toForgeError(e: unknown): ForgeError {
+  return e instanceof ForgeError ? e : new ForgeConnectionError(e);
+}
+
+/** @internal — yield results in completion order with bounded concurrency. */
+export async function* runBatch(
+  builders: readonly RenderRequestBuilder[],
+  options?: BatchOptions,
+): AsyncGenerator<BatchResult, void, undefined> {
+  const total = builders.length;
+  if (Number.isNaN(options?.concurrency)) throw new ForgeError("batch concurrency must be a number, got NaN");
+  const concurrency = Math.max(1, options?.concurrency ?? 4);
+  const running = new Map<number, Promise<BatchResult>>();
+  let next = 0;
+  let stopped = false;
+  let succeeded = 0;
+  let failed = 0;
+
+  const start = (index: number): void => {
+    running.set(
+      index,
+      builders[index].sendWithWarnings({
+        signal: options?.signal,
+        timeout: options?.timeout,
+        priority: options?.priority,
+      }).then(
+        (response): BatchResult => ({ index, ok: true, response }),
+        (e): BatchResult => ({ index, ok: false, error: toForgeError(e) }),
+      ),
+    );
+  };
+
+  for (;;) {
+    while (!stopped && !options?.signal?.aborted && next < total && running.size < concurrency) {
+      start(next++);
+    }
+    if (running.size === 0) return;
+
+    const result = await Promise.race(running.values());
+    running.delete(result.index);
+    if (result.ok) succeeded++;
+    else failed++;
+    if (!result.ok && options?.stopOnError) stopped = true;
+
+    options?.onProgress?.({ total, completed: succeeded + failed, succeeded, failed, result });
+    yield result;
+  }
+}
+
+/**
+ * @internal — collect a batch into input order. Items never started are
+ * reported with ForgeAbortError (batch aborted) or a plain ForgeError
+ * (skipped after `stopOnError`).
+ */
+export async function collectBatch(
+  builders: readonly RenderRequestBuilder[],
+  options?: BatchOptions,
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = new Array(builders.length);
+  for await (const result of runBatch(builders, options)) {
+    results[result.index] = result;
+  }
+  for (let index = 0; index < builders.length; index++) {
+    results[index] ??= {
+      index,
+      ok: false,
+      error: options?.signal?.aborted
+        ? new ForgeAbortError(options.signal.reason)
+        : new ForgeError("batch cancelled before item started"),
+    };
+  }
+  return results;
+}
@@ -0,0 +1,102 @@
+import { fromBase64 } from "./encoding.js";
+import { ForgeError } from "./error.js";
+import type { BinaryInput, RenderPayload, ValidationIssue } from "./types.js";
+
+/** Maximum decoded sizes in bytes, checked before anything is uploaded. */
+export interface UploadLimits {
+  /** Each embedded file (default: 25 MiB). */
+  attachment?: number;
+  /** The signing certificate (default: 1 MiB). */
+  certificate?: number;
+  /** Each watermark image (default: 10 MiB). */
+  watermarkImage?: number;
+}
+
+/** @internal */
+export const DEFAULT_UPLOAD_LIMITS: Required<UploadLimits> = {
+  attachment: 25 * 1024 * 1024,
+  certificate: 1024 * 1024,
+  watermarkImage: 10 * 1024 * 1024,
+};
+
+/** @internal — bytes of an input that is available synchronously; undefined for strings, Blobs and files. */
+export function bytesOf(input: BinaryInput): Uint8Array | undefined {
+  if (input instanceof ArrayBuffer) return new Uint8Array(input);
+  if (ArrayBuffer.isView(input)) return new Uint8Array(input.buffer, input.byteOffset, input.byteLength);
+  return undefined;
+}
+
+/** @internal — read a Blob or file input. */
+export async function readBinary(input: Blob | { path: string }): Promise<Uint8Array> {
+  if (!("path" in input)) return new Uint8Array(await input.arrayBuffer());
+  let readFile: (path: string) => Promise<Uint8Array>;
+  try {
+    ({ readFile } = await import("node:fs/promises"));
+  } catch {
+    throw new ForgeError(`cannot read "${input.path}": file paths need Node.js, Deno or Bun`);
+  }
+  try {
+    return new Uint8Array(await readFile(input.path));
+  } catch (e) {
+    throw new ForgeError(`cannot read "${input.path}": ${(e as Error).message}`);
+  }
+}
+
+const SIGNATURES: [number[], string][] = [
+  [[0x25, 0x50, 0x44, 0x46, 0x2d], "application/pdf"],
+  [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], "image/png"],
+  [[0xff, 0xd8, 0xff], "image/jpeg"],
+  [[0x47, 0x49, 0x46, 0x38], "image/gif"],
+  [[0x42, 0x4d], "image/bmp"],
+  [[0x49, 0x49, 0x2a, 0x00], "image/tiff"],
+  [[0x4d, 0x4d, 0x00, 0x2a], "image/tiff"],
+  [[0x50, 0x4b, 0x03, 0x04], "application/zip"],
+  [[0x1f, 0x8b], "application/gzip"],
+];
+
+/**
+ * Detect a MIME type from the first bytes of a file: PDF, PNG, JPEG, GIF,
+ * WebP, BMP, TIFF, ZIP, gzip, XML and SVG. Returns undefined otherwise.
+ */
+export function detectMimeType(bytes: Uint8Array): string | undefined {
+  for (const [magic, type] of SIGNATURES) {
+    if (magic.every((b, i) => bytes[i] === b)) return type;
+  }
+  const ascii = String.fromCharCode(...bytes.subarray(0, 256));
+  if (ascii.startsWith("RIFF") && ascii.slice(8, 12) === "WEBP") return "image/webp";
+  const text = ascii.replace(/^\xef\xbb\xbf/, "").trimStart();
+  if (/^(?:<\?xml[^>]*>\s*)?(?:<!--[\s\S]*?-->\s*)*<svg[\s>]/.test(text)) return "image/svg+xml";
+  if (text.startsWith("<?xml")) return "application/xml";
+  return undefined;
+}
+
+/** @internal — MIME type from the start of a base64 string. */
+export function detectBase64MimeType(base64: string): string | undefined {
+  try {
+    return detectMimeType(fromBase64(base64.slice(0, 344)));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Decoded size of a base64 string. */
+function decodedSize(base64: string): number {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+/** @internal — report binary fields larger than the configured limits. */
+export function uploadLimitIssues(payload: RenderPayload, limits: Required<UploadLimits>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const check = (path: string, base64: string | undefined, limit: number) => {
+    if (base64 === undefined) return;
+    const size = decodedSize(base64);
+    if (size > limit) issues.push({ path, rule: "range", message: `${size} bytes exceed the upload limit of ${limit}` });
+  };
+  const pdf = payload.pdf;
+  pdf?.embedded_files?.forEach((f, i) => check(`pdf.embedded_files[${i}].data`, f.data, limits.attachment));
+  check("pdf.signature.certificate_data", pdf?.signature?.certificate_data, limits.certificate);
+  check("pdf.watermark.image_data", pdf?.watermark?.image_data, limits.watermarkImage);
+  pdf?.watermarks?.forEach((w, i) => check(`pdf.watermarks[${i}].image_data`, w.image_data, limits.watermarkImage));
+  return issues;
+}
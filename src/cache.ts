@@ -0,0 +1,106 @@
+import type { ForgeWarning, RenderPayload } from "./types.js";
+
+/** A cached render result. */
+export interface CacheEntry {
+  data: Uint8Array;
+  warnings: ForgeWarning[];
+  /** Expiry as a `Date.now()` timestamp; absent for entries without TTL. */
+  expiresAt?: number;
+}
+
+/** Storage backend for the render cache. */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Options for the opt-in render cache. */
+export interface RenderCacheOptions {
+  /** Where entries are kept, e.g. `new MemoryCacheStore()` or `new FileCacheStore(dir)`. */
+  store: CacheStore;
+  /** Time to live in milliseconds (default: entries never expire). */
+  ttl?: number;
+}
+
+/** @internal — JSON with object keys sorted, so equal payloads serialize identically. */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Web Crypto, from `node:crypto` on Node.js 18, which has no global `crypto`. */
+async function subtleCrypto(): Promise<SubtleCrypto> {
+  if (globalThis.crypto?.subtle) return globalThis.crypto.subtle;
+  const { webcrypto } = await import("node:crypto");
+  return webcrypto.subtle as SubtleCrypto;
+}
+
+/** @internal — hex SHA-256 of the normalized payload. */
+export async function cacheKey(payload: RenderPayload): Promise<string> {
+  const bytes = new TextEncoder().encode(stableStringify(payload));
+  const digest = await (await subtleCrypto()).digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * @internal — signed or encrypted documents are never cached: their bytes
+ * (timestamps, salts, keys) must not be reused.
+ */
+export function isCacheable(payload: RenderPayload): boolean {
+  return payload.pdf?.signature === undefined && payload.pdf?.encryption === undefined;
+}
+
+/** In-memory LRU cache store bounded by total bytes. */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxBytes: number;
+  private bytes = 0;
+
+  /** @param options.maxBytes Byte budget for cached output (default: 64 MiB). */
+  constructor(options?: { maxBytes?: number }) {
+    this.maxBytes = options?.maxBytes ?? 64 * 1024 * 1024;
+  }
+
+  /** Total bytes of cached output. */
+  get size(): number {
+    return this.bytes;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark as most recently used.
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.delete(key);
+    if (entry.data.byteLength > this.maxBytes) return;
+    this.entries.set(key, entry);
+    this.bytes += entry.data.byteLength;
+    for (const [oldest, old] of this.entries) {
+      if (this.bytes <= this.maxBytes) break;
+      this.entries.delete(oldest);
+      this.bytes -= old.data.byteLength;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.bytes -= entry.data.byteLength;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import type {
+  BarcodeImagePayload,
+  RenderPayload,
+  ServerInfo,
+  ServerInfoResponse,
+  ValidationIssue,
+} from "./types.js";
+
+/** Major version of the Forge HTTP API this SDK speaks. */
+export const API_VERSION = 1;
+
+/** @internal — convert the wire format of `GET /info`. */
+export function parseServerInfo(body: ServerInfoResponse): ServerInfo {
+  return {
+    version: body.version,
+    apiVersion: body.api_version,
+    capabilities: {
+      formats: body.formats,
+      paperSizes: body.paper_sizes,
+      pdfModes: body.pdf?.modes,
+      pdfStandards: body.pdf?.standards,
+      accessibility: body.pdf?.accessibility,
+      pdfFeatures: body.pdf?.features,
+      barcodeTypes: body.barcode_types,
+    },
+    limits: {
+      maxBodyBytes: body.limits?.max_body_bytes,
+      maxTimeout: body.limits?.max_timeout,
+      maxWidth: body.limits?.max_width,
+      maxHeight: body.limits?.max_height,
+    },
+  };
+}
+
+/** PDF feature names keyed by the payload field that needs them. */
+const PDF_FEATURES: [keyof NonNullable<RenderPayload["pdf"]>, string][] = [
+  ["signature", "signing"],
+  ["encryption", "encryption"],
+  ["watermark", "watermarks"],
+  ["watermarks", "watermarks"],
+  ["barcodes", "barcodes"],
+  ["embedded_files", "embedded_files"],
+  ["headers", "headers_footers"],
+  ["footers", "headers_footers"],
+  ["einvoice", "einvoice"],
+  ["linearize", "linearize"],
+];
+
+/** Issue collector shared by the payload and barcode checks. */
+function checker(info: ServerInfo) {
+  const issues: ValidationIssue[] = [];
+  const list = (path: string, what: string, value: string | undefined, supported: string[] | undefined) => {
+    if (value === undefined || supported === undefined || supported.includes(value)) return;
+    issues.push({ path, rule: "unsupported", message: `${what} "${value}" is not supported` });
+  };
+  if (info.apiVersion !== undefined && info.apiVersion !== API_VERSION) {
+    issues.push({
+      path: "api_version",
+      rule: "unsupported",
+      message: `server speaks API version ${info.apiVersion}, this SDK speaks ${API_VERSION}`,
+    });
+  }
+  return { issues, list };
+}
+
+/**
+ * @internal — report the parts of a payload the server does not advertise:
+ * formats, paper sizes, PDF modes, standards, accessibility levels, PDF
+ * features and barcode types, and values beyond its limits. Lists the
+ * server omits are not checked.
+ */
+export function unsupportedFeatures(payload: RenderPayload, info: ServerInfo): ValidationIssue[] {
+  const { issues, list } = checker(info);
+  const caps = info.capabilities;
+  const limits = info.limits;
+  const over = (path: string, value: number | undefined, max: number | undefined, unit: string) => {
+    if (value !== undefined && max !== undefined && value > max) {
+      issues.push({ path, rule: "range", message: `${value} exceeds the server maximum of ${max}${unit}` });
+    }
+  };
+
+  list("format", "format", payload.format, caps.formats);
+  list("paper", "paper size", payload.paper, caps.paperSizes);
+  over("width", payload.width, limits.maxWidth, " pixels");
+  over("height", payload.height, limits.maxHeight, " pixels");
+  over("timeout", payload.timeout, limits.maxTimeout, " seconds");
+  if (limits.maxBodyBytes !== undefined) {
+    over("<body>", new TextEncoder().encode(JSON.stringify(payload)).length, limits.maxBodyBytes, " bytes");
+  }
+
+  const pdf = payload.pdf;
+  if (pdf) {
+    list("pdf.mode", "PDF mode", pdf.mode, caps.pdfModes);
+    list("pdf.standard", "PDF standard", pdf.standard, caps.pdfStandards);
+    list("pdf.accessibility", "accessibility level", pdf.accessibility, caps.accessibility);
+    const reported = new Set<string>();
+    for (const [key, feature] of PDF_FEATURES) {
+      if (pdf[key] === undefined || pdf[key] === false || reported.has(feature)) continue;
+      if (caps.pdfFeatures !== undefined && !caps.pdfFeatures.includes(feature)) {
+        reported.add(feature);
+        issues.push({ path: `pdf.${key}`, rule: "unsupported", message: `PDF feature "${feature}" is not supported` });
+      }
+    }
+    pdf.barcodes?.forEach((b, i) => list(`pdf.barcodes[${i}].type`, "barcode type", b.type, caps.barcodeTypes));
+  }
+  return issues;
+}
+
+/** @internal — `unsupportedFeatures()` for `renderBarcode()`. */
+export function unsupportedBarcodeFeatures(payload: BarcodeImagePayload, info: ServerInfo): ValidationIssue[] {
+  const { issues, list } = checker(info);
+  list("type", "barcode type", payload.type, info.capabilities.barcodeTypes);
+  list("format", "format", payload.format, info.capabilities.formats);
+  return issues;
+}
@@ -0,0 +1,340 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { basename, dirname, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import type { ParseArgsConfig } from "node:util";
+import { ForgeError } from "./error.js";
+import { ForgeClient } from "./index.js";
+import type { RenderRequestBuilder } from "./index.js";
+import { loadAssetDirectory } from "./node.js";
+import { mergePresets, parsePreset, PRESET_SCALAR_KEYS } from "./preset.js";
+import type { PresetScalarKey } from "./preset.js";
+import type {
+  BarcodePayload,
+  EInvoiceFlavor,
+  EInvoiceOptions,
+  EInvoiceProfile,
+  ForgeWarning,
+  RenderPreset,
+} from "./types.js";
+
+/** Process exit codes used by the CLI. */
+export const ExitCode = {
+  Ok: 0,
+  /** Render, connection or server error. */
+  Error: 1,
+  /** Invalid command line. */
+  Usage: 2,
+  /** Output was written but the server reported warnings. */
+  Warnings: 3,
+} as const;
+
+/** Streams and environment the CLI runs against; replaceable in tests. */
+export interface CliIo {
+  stdout: { write(chunk: string | Uint8Array): unknown };
+  stderr: { write(chunk: string): unknown };
+  env: Record<string, string | undefined>;
+}
+
+const NUMBER_KEYS = new Set<PresetScalarKey>([
+  "width",
+  "height",
+  "density",
+  "timeout",
+  "colors",
+  "pdfWatermarkOpacity",
+  "pdfWatermarkRotation",
+  "pdfWatermarkFontSize",
+  "pdfWatermarkScale",
+]);
+
+const BOOLEAN_KEYS = new Set<PresetScalarKey>(["pdfBookmarks", "pdfPageNumbers", "pdfLinearize"]);
+
+/** Structured settings only available through `--preset` or dedicated flags. */
+const NO_FLAG_KEYS = new Set<PresetScalarKey>(["pdfEInvoiceMetadata"]);
+
+/** Binary settings whose flags take a file path; presets carry them as base64. */
+const FILE_KEYS = new Set<PresetScalarKey>(["pdfWatermarkImage", "pdfSignCertificate"]);
+
+const USAGE = `Usage:
+  forge render <file|url> [-o out.pdf] [options]
+  forge batch <glob> [-o outdir] [--concurrency n] [options]
+  forge health
+
+Common options:
+  --server <url>          Forge server (default: $FORGE_URL or http://localhost:3000)
+  --preset <file.json>    Read builder options from a preset file
+  --assets <dir>          Attach every file under <dir> as an HTML asset
+  --pdf-barcode <spec>    Add a barcode: "type:data" or a JSON barcode object (repeatable)
+  --pdf-attach <file>     Embed a file in the PDF (repeatable)
+  --pdf-watermark-image <file>   Use a PNG/JPEG file as the watermark
+  --pdf-sign-certificate <file>  Sign the PDF with a PKCS#12 certificate file
+  --pdf-einvoice <xml>    Make a ZUGFeRD / Factur-X e-invoice from a CII XML file
+  --einvoice-profile <p>  minimum, basic, en16931 (default), extended or xrechnung
+  --einvoice-flavor <f>   factur-x (default) or zugferd
+  --dry-run               Print the payload JSON instead of rendering
+  --ignore-warnings       Exit 0 even if the server reports warnings
+
+Every builder setting is available as a flag, e.g. --paper a4, --margins 10,10,10,10,
+--pdf-title "Report", --pdf-watermark-text DRAFT, --pdf-bookmarks.
+
+Exit codes: 0 ok, 1 error, 2 usage, 3 written with warnings.`;
+
+/** "pdfWatermarkText" -> "pdf-watermark-text". */
+function kebab(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+function buildOptionsConfig(): NonNullable<ParseArgsConfig["options"]> {
+  const options: NonNullable<ParseArgsConfig["options"]> = {
+    output: { type: "string", short: "o" },
+    server: { type: "string" },
+    preset: { type: "string" },
+    assets: { type: "string" },
+    concurrency: { type: "string" },
+    "pdf-barcode": { type: "string", multiple: true },
+    "pdf-attach": { type: "string", multiple: true },
+    "pdf-einvoice": { type: "string" },
+    "einvoice-profile": { type: "string" },
+    "einvoice-flavor": { type: "string" },
+    "dry-run": { type: "boolean" },
+    "ignore-warnings": { type: "boolean" },
+    help: { type: "boolean", short: "h" },
+  };
+  for (const key of PRESET_SCALAR_KEYS) {
+    if (NO_FLAG_KEYS.has(key)) continue;
+    options[kebab(key)] = { type: BOOLEAN_KEYS.has(key) ? "boolean" : "string" };
+  }
+  return options;
+}
+
+class UsageError extends Error {}
+
+/** Turn parsed flags into a preset, one flag per builder method. */
+function presetFromFlags(values: Record<string, string | boolean | (string | boolean)[] | undefined>): RenderPreset {
+  const preset: Record<string, unknown> = {};
+  for (const key of PRESET_SCALAR_KEYS) {
+    if (NO_FLAG_KEYS.has(key) || FILE_KEYS.has(key)) continue;
+    const raw = values[kebab(key)];
+    if (raw === undefined || Array.isArray(raw)) continue;
+    if (NUMBER_KEYS.has(key)) {
+      const n = Number(raw);
+      if (typeof raw !== "string" || raw.trim() === "" || Number.isNaN(n)) {
+        throw new UsageError(`--${kebab(key)} expects a number, got "${raw}"`);
+      }
+      preset[key] = n;
+    } else if (key === "palette" && typeof raw === "string" && (raw.includes(",") || raw.startsWith("#"))) {
+      preset[key] = raw.split(",").map((c) => c.trim());
+    } else {
+      preset[key] = raw;
+    }
+  }
+  return preset as RenderPreset;
+}
+
+function parseBarcode(spec: string): BarcodePayload {
+  if (spec.trimStart().startsWith("{")) {
+    try {
+      return JSON.parse(spec) as BarcodePayload;
+    } catch (e) {
+      throw new UsageError(`--pdf-barcode has invalid JSON: ${(e as Error).message}`);
+    }
+  }
+  const sep = spec.indexOf(":");
+  if (sep <= 0) throw new UsageError(`--pdf-barcode expects "type:data" or JSON, got "${spec}"`);
+  return { type: spec.slice(0, sep), data: spec.slice(sep + 1) };
+}
+
+/** Convert a glob (`*`, `**`, `?`) into an anchored regular expression. */
+function globToRegExp(pattern: string): RegExp {
+  let re = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*" && pattern[i + 1] === "*") {
+      const slash = pattern[i + 2] === "/";
+      re += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** @internal — expand a glob against the filesystem, sorted. */
+export async function expandGlob(pattern: string): Promise<string[]> {
+  const normalized = pattern.replace(/\\/g, "/");
+  const segments = normalized.split("/");
+  const firstGlob = segments.findIndex((s) => /[*?]/.test(s));
+  if (firstGlob === -1) return [pattern];
+
+  const base = segments.slice(0, firstGlob).join("/") || ".";
+  const prefix = firstGlob === 0 ? "" : `${base}/`;
+  const matcher = globToRegExp(normalized);
+  const matches: string[] = [];
+  const walk = async (dir: string, rel: string): Promise<void> => {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      const relPath = rel ? `${rel}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) await walk(join(dir, entry.name), relPath);
+      else if (entry.isFile() && matcher.test(`${prefix}${relPath}`)) matches.push(`${prefix}${relPath}`);
+    }
+  };
+  await walk(base, "");
+  return matches.sort();
+}
+
+interface CommonOptions {
+  client: ForgeClient;
+  preset: RenderPreset;
+  barcodes: BarcodePayload[];
+  attachments: string[];
+  /** Contents of the `FILE_KEYS` flags' files. */
+  binaries: Partial<Record<PresetScalarKey, Uint8Array>>;
+  assetsDir?: string;
+  eInvoice?: { xml: Uint8Array; options: EInvoiceOptions };
+}
+
+async function startBuilder(source: string, common: CommonOptions): Promise<RenderRequestBuilder> {
+  const builder = /^https?:\/\//i.test(source)
+    ? common.client.renderUrl(source)
+    : common.client.renderHtml(await readFile(source, "utf8"));
+  builder.apply(common.preset);
+  for (const barcode of common.barcodes) builder.apply({ pdfBarcodes: [barcode] });
+  for (const file of common.attachments) {
+    builder.pdfAttach(basename(file), new Uint8Array(await readFile(file)));
+  }
+  if (common.binaries.pdfWatermarkImage) builder.pdfWatermarkImage(common.binaries.pdfWatermarkImage);
+  if (common.binaries.pdfSignCertificate) builder.pdfSignCertificate(common.binaries.pdfSignCertificate);
+  if (common.eInvoice) builder.pdfEInvoice(common.eInvoice.xml, common.eInvoice.options);
+  if (common.assetsDir) builder.assets(await loadAssetDirectory(common.assetsDir));
+  return builder;
+}
+
+function reportWarnings(io: CliIo, source: string, warnings: ForgeWarning[]): void {
+  for (const w of warnings) {
+    io.stderr.write(`warning: ${source}: ${w.code ? `[${w.code}] ` : ""}${w.message}\n`);
+  }
+}
+
+/**
+ * Run the CLI with the given arguments (without `node` and the script path)
+ * and resolve with the process exit code.
+ */
+export async function main(argv: string[], io: CliIo = process): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: buildOptionsConfig(), allowPositionals: true, strict: true });
+  } catch (e) {
+    io.stderr.write(`${(e as Error).message}\n\n${USAGE}\n`);
+    return ExitCode.Usage;
+  }
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+  if (values.help || command === undefined) {
+    io.stdout.write(`${USAGE}\n`);
+    return values.help ? ExitCode.Ok : ExitCode.Usage;
+  }
+
+  const server = (values.server as string | undefined) ?? io.env.FORGE_URL ?? "http://localhost:3000";
+  const client = new ForgeClient(server);
+
+  try {
+    if (command === "health") {
+      const status = await client.healthDetails();
+      if (!status.healthy) {
+        io.stdout.write(`unhealthy: ${status.error}\n`);
+        return ExitCode.Error;
+      }
+      const details = [`latency=${status.latency}ms`];
+      if (status.version !== undefined) details.unshift(`version=${status.version}`);
+      if (status.queueDepth !== undefined) details.push(`queue=${status.queueDepth}`);
+      io.stdout.write(`ok ${details.join(" ")}\n`);
+      return ExitCode.Ok;
+    }
+
+    if (command !== "render" && command !== "batch") throw new UsageError(`unknown command "${command}"`);
+    if (args.length !== 1) throw new UsageError(`${command} expects exactly one input`);
+
+    const filePreset = values.preset ? parsePreset(await readFile(values.preset as string, "utf8")) : {};
+    const binaries: CommonOptions["binaries"] = {};
+    for (const key of FILE_KEYS) {
+      const path = values[kebab(key)];
+      if (typeof path === "string") binaries[key] = new Uint8Array(await readFile(path));
+    }
+    const common: CommonOptions = {
+      client,
+      preset: mergePresets(filePreset, presetFromFlags(values)),
+      barcodes: ((values["pdf-barcode"] as string[] | undefined) ?? []).map(parseBarcode),
+      attachments: (values["pdf-attach"] as string[] | undefined) ?? [],
+      binaries,
+      assetsDir: values.assets as string | undefined,
+      eInvoice: values["pdf-einvoice"]
+        ? {
+            xml: new Uint8Array(await readFile(values["pdf-einvoice"] as string)),
+            options: {
+              profile: ((values["einvoice-profile"] as string | undefined) ?? "en16931") as EInvoiceProfile,
+              flavor: values["einvoice-flavor"] as EInvoiceFlavor | undefined,
+            },
+          }
+        : undefined,
+    };
+    const output = values.output as string | undefined;
+    const dryRun = values["dry-run"] === true;
+    const failOnWarnings = values["ignore-warnings"] !== true;
+
+    if (command === "render") {
+      const builder = await startBuilder(args[0], common);
+      if (dryRun) {
+        io.stdout.write(`${JSON.stringify(builder.buildPayload(), null, 2)}\n`);
+        return ExitCode.Ok;
+      }
+      const { data, warnings } = await builder.sendWithWarnings();
+      if (output === undefined || output === "-") io.stdout.write(data);
+      else await writeFile(output, data);
+      reportWarnings(io, args[0], warnings);
+      return warnings.length > 0 && failOnWarnings ? ExitCode.Warnings : ExitCode.Ok;
+    }
+
+    const concurrency = values.concurrency !== undefined ? Number(values.concurrency) : undefined;
+    if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency >= 1)) {
+      throw new UsageError(`--concurrency expects a positive integer, got "${values.concurrency}"`);
+    }
+    const files = await expandGlob(args[0]);
+    if (files.length === 0) throw new UsageError(`no files match "${args[0]}"`);
+    const builders = await Promise.all(files.map((f) => startBuilder(f, common)));
+    if (dryRun) {
+      io.stdout.write(`${JSON.stringify(builders.map((b) => b.buildPayload()), null, 2)}\n`);
+      return ExitCode.Ok;
+    }
+    const format = common.preset.format ?? "pdf";
+    if (output !== undefined) await mkdir(output, { recursive: true });
+    let failed = 0;
+    let warned = false;
+    for await (const result of client.renderBatchIterator(builders, { concurrency })) {
+      const file = files[result.index];
+      if (!result.ok) {
+        failed++;
+        io.stderr.write(`error: ${file}: ${result.error.message}\n`);
+        continue;
+      }
+      const name = `${basename(file, extname(file))}.${format === "jpeg" ? "jpg" : format}`;
+      const target = join(output ?? dirname(file), name);
+      await writeFile(target, result.response.data);
+      io.stdout.write(`${file} -> ${target}\n`);
+      reportWarnings(io, file, result.response.warnings);
+      warned ||= result.response.warnings.length > 0;
+    }
+    if (failed > 0) return ExitCode.Error;
+    return warned && failOnWarnings ? ExitCode.Warnings : ExitCode.Ok;
+  } catch (e) {
+    if (e instanceof UsageError) {
+      io.stderr.write(`${e.message}\n\n${USAGE}\n`);
+      return ExitCode.Usage;
+    }
+    io.stderr.write(`error: ${e instanceof ForgeError ? e.message : String(e)}\n`);
+    return ExitCode.Error;
+  }
+}
@@ -0,0 +1,135 @@
+import { ForgeValidationError } from "./error.js";
+import type { EInvoiceFlavor, EInvoicePayload, EInvoiceProfile, ValidationIssue } from "./types.js";
+
+/** XMP `fx:ConformanceLevel` per profile. */
+const CONFORMANCE_LEVELS: Record<EInvoiceProfile, string> = {
+  minimum: "MINIMUM",
+  basic: "BASIC",
+  en16931: "EN 16931",
+  extended: "EXTENDED",
+  xrechnung: "XRECHNUNG",
+};
+
+const NAME = /[A-Za-z_][\w.\-]*(?::[A-Za-z_][\w.\-]*)?/.source;
+const START_TAG = new RegExp(`<(${NAME})((?:\\s+${NAME}\\s*=\\s*(?:"[^"<]*"|'[^'<]*'))*)\\s*(/?)>`, "y");
+const END_TAG = new RegExp(`</(${NAME})\\s*>`, "y");
+const BAD_ENTITY = /&(?!(?:amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);)/;
+
+function lineAt(xml: string, index: number): number {
+  return xml.slice(0, index).split("\n").length;
+}
+
+/**
+ * @internal — basic well-formedness check: balanced tags, one root element,
+ * quoted attributes, escaped `&`. Returns the root element name or an error.
+ */
+export function checkXml(xml: string): { root: string } | { error: string } {
+  const stack: string[] = [];
+  let root: string | undefined;
+  let i = xml.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (i < xml.length) {
+    const lt = xml.indexOf("<", i);
+    const text = xml.slice(i, lt === -1 ? undefined : lt);
+    if (text.trim() !== "" && stack.length === 0) {
+      return { error: `text outside the root element on line ${lineAt(xml, i)}` };
+    }
+    if (BAD_ENTITY.test(text)) return { error: `unescaped "&" on line ${lineAt(xml, i)}` };
+    if (lt === -1) break;
+
+    const skip = (open: string, close: string): number => {
+      if (!xml.startsWith(open, lt)) return -1;
+      const end = xml.indexOf(close, lt + open.length);
+      return end === -1 ? -2 : end + close.length;
+    };
+    const special =
+      [skip("<?", "?>"), skip("<!--", "-->"), skip("<![CDATA[", "]]>"), skip("<!DOCTYPE", ">")].find((n) => n !== -1) ?? -1;
+    if (special === -2) return { error: `unterminated markup on line ${lineAt(xml, lt)}` };
+    if (special !== -1) {
+      i = special;
+      continue;
+    }
+
+    END_TAG.lastIndex = lt;
+    const end = END_TAG.exec(xml);
+    if (end) {
+      const open = stack.pop();
+      if (open !== end[1]) {
+        return { error: `</${end[1]}> on line ${lineAt(xml, lt)} does not close ${open ? `<${open}>` : "any element"}` };
+      }
+      i = END_TAG.lastIndex;
+      continue;
+    }
+
+    START_TAG.lastIndex = lt;
+    const start = START_TAG.exec(xml);
+    if (!start) return { error: `malformed tag on line ${lineAt(xml, lt)}` };
+    if (stack.length === 0) {
+      if (root !== undefined) return { error: `second root element <${start[1]}> on line ${lineAt(xml, lt)}` };
+      root = start[1];
+    }
+    if (start[3] !== "/") stack.push(start[1]);
+    i = START_TAG.lastIndex;
+  }
+
+  if (stack.length > 0) return { error: `<${stack[stack.length - 1]}> is never closed` };
+  if (root === undefined) return { error: "no root element" };
+  return { root };
+}
+
+/** Profile named by the CII guideline ID (BT-24), if recognizable. */
+function guidelineProfile(xml: string): EInvoiceProfile | undefined {
+  const m = /GuidelineSpecifiedDocumentContextParameter>\s*<(?:[\w.\-]+:)?ID>([^<]*)</.exec(xml);
+  if (!m) return undefined;
+  const id = m[1].trim().toLowerCase();
+  if (id.includes("xrechnung")) return "xrechnung";
+  if (id.includes("extended")) return "extended";
+  if (id.includes("minimum")) return "minimum";
+  if (id.includes("basicwl")) return undefined;
+  if (id.includes("basic")) return "basic";
+  if (id.endsWith("en16931:2017")) return "en16931";
+  return undefined;
+}
+
+/** @internal — name of the embedded XML file required by the flavor and profile. */
+export function eInvoiceFileName(profile: EInvoiceProfile, flavor: EInvoiceFlavor): string {
+  if (profile === "xrechnung") return "xrechnung.xml";
+  return flavor === "zugferd" ? "zugferd-invoice.xml" : "factur-x.xml";
+}
+
+/**
+ * @internal — check the invoice XML and build the XMP metadata. Throws
+ * ForgeValidationError if the XML is malformed, is not a UN/CEFACT Cross
+ * Industry Invoice, or declares a different profile.
+ */
+export function eInvoiceMetadata(xml: string, profile: EInvoiceProfile, flavor: EInvoiceFlavor): EInvoicePayload {
+  const issues: ValidationIssue[] = [];
+  const issue = (rule: string, message: string) => issues.push({ path: "einvoice.xml", rule, message });
+
+  if (!(profile in CONFORMANCE_LEVELS)) {
+    throw new ForgeValidationError([{ path: "einvoice.profile", rule: "unknown", message: `unknown profile "${profile}"` }]);
+  }
+  const checked = checkXml(xml);
+  if ("error" in checked) {
+    issue("format", `invoice XML is not well-formed: ${checked.error}`);
+  } else {
+    const local = checked.root.slice(checked.root.indexOf(":") + 1);
+    if (local !== "CrossIndustryInvoice") {
+      issue("format", `expected a CrossIndustryInvoice root element, got <${checked.root}>`);
+    }
+    const declared = guidelineProfile(xml);
+    if (declared !== undefined && declared !== profile) {
+      issue("conflict", `the XML declares the ${declared} profile, not ${profile}`);
+    }
+  }
+  if (issues.length > 0) throw new ForgeValidationError(issues);
+
+  return {
+    flavor,
+    profile,
+    document_type: "INVOICE",
+    document_file_name: eInvoiceFileName(profile, flavor),
+    version: "1.0",
+    conformance_level: CONFORMANCE_LEVELS[profile],
+  };
+}
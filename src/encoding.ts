@@ -0,0 +1,17 @@
+/** @internal — base64-encode bytes without relying on Node's Buffer. */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunk to stay well below the argument limit of String.fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** @internal — decode base64 into bytes without relying on Node's Buffer. */
+export function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,132 @@
+/** How a multi-endpoint client picks the server for each request. */
+export type LoadBalancingStrategy = "round-robin" | "least-in-flight";
+
+/** Options for clients created with several endpoints. */
+export interface LoadBalancingOptions {
+  /** Endpoint selection (default: "round-robin"). */
+  strategy?: LoadBalancingStrategy;
+  /**
+   * Milliseconds an endpoint is skipped after a connection error or a failed
+   * health check (default: 30000).
+   */
+  cooldown?: number;
+}
+
+/** Request counters and health of one endpoint, from `ForgeClient.endpointMetrics()`. */
+export interface EndpointMetrics {
+  url: string;
+  /** False while the endpoint is cooling down after a failure. */
+  healthy: boolean;
+  /** Requests sent and still waiting for response headers. */
+  inFlight: number;
+  /** Requests sent, including failed ones. */
+  requests: number;
+  /** Connection errors and failed health checks. */
+  failures: number;
+  /** Mean time to response headers in milliseconds, over responses received. */
+  averageLatency?: number;
+  /** When the cool-down ends (epoch milliseconds), while unhealthy. */
+  unhealthyUntil?: number;
+  /** Message of the most recent failure. */
+  lastError?: string;
+}
+
+/** @internal */
+export interface Endpoint {
+  readonly url: string;
+  inFlight: number;
+  requests: number;
+  failures: number;
+  responses: number;
+  totalLatency: number;
+  unhealthyUntil: number;
+  lastError?: string;
+}
+
+/**
+ * @internal — the endpoints of one client, with passive health tracking.
+ * Endpoints are never probed; a connection error or failed `/health`
+ * response takes one out of rotation for the cool-down period, after which
+ * it is tried again.
+ */
+export class EndpointPool {
+  readonly endpoints: Endpoint[];
+  private readonly strategy: LoadBalancingStrategy;
+  private readonly cooldown: number;
+  private next = 0;
+
+  constructor(urls: string[], options?: LoadBalancingOptions) {
+    this.endpoints = urls.map((url) => ({
+      url,
+      inFlight: 0,
+      requests: 0,
+      failures: 0,
+      responses: 0,
+      totalLatency: 0,
+      unhealthyUntil: 0,
+    }));
+    this.strategy = options?.strategy ?? "round-robin";
+    this.cooldown = options?.cooldown ?? 30_000;
+  }
+
+  /** Endpoint with this URL, if it belongs to the pool. */
+  find(url: string): Endpoint | undefined {
+    return this.endpoints.find((e) => e.url === url);
+  }
+
+  /**
+   * Choose an endpoint, skipping `exclude` (already failed for this request)
+   * and those cooling down. When every candidate is cooling down, the one
+   * that recovers first is used. Undefined when all are excluded.
+   */
+  pick(exclude: ReadonlySet<Endpoint>, now = Date.now()): Endpoint | undefined {
+    const count = this.endpoints.length;
+    // Rotate the starting point so ties are spread evenly.
+    const start = this.next++ % count;
+    const candidates: Endpoint[] = [];
+    for (let i = 0; i < count; i++) {
+      const endpoint = this.endpoints[(start + i) % count];
+      if (!exclude.has(endpoint)) candidates.push(endpoint);
+    }
+    if (candidates.length === 0) return undefined;
+
+    const healthy = candidates.filter((e) => e.unhealthyUntil <= now);
+    if (healthy.length === 0) {
+      return candidates.reduce((a, b) => (b.unhealthyUntil < a.unhealthyUntil ? b : a));
+    }
+    if (this.strategy === "least-in-flight") {
+      return healthy.reduce((a, b) => (b.inFlight < a.inFlight ? b : a));
+    }
+    return healthy[0];
+  }
+
+  /** Record a received response; the endpoint is reachable again. */
+  succeeded(endpoint: Endpoint, latency: number): void {
+    endpoint.responses++;
+    endpoint.totalLatency += latency;
+    endpoint.unhealthyUntil = 0;
+  }
+
+  /** Take the endpoint out of rotation for the cool-down period. */
+  failed(endpoint: Endpoint, error: Error, now = Date.now()): void {
+    endpoint.failures++;
+    endpoint.lastError = error.message;
+    endpoint.unhealthyUntil = now + this.cooldown;
+  }
+
+  metrics(now = Date.now()): EndpointMetrics[] {
+    return this.endpoints.map((e) => {
+      const m: EndpointMetrics = {
+        url: e.url,
+        healthy: e.unhealthyUntil <= now,
+        inFlight: e.inFlight,
+        requests: e.requests,
+        failures: e.failures,
+      };
+      if (e.responses > 0) m.averageLatency = e.totalLatency / e.responses;
+      if (!m.healthy) m.unhealthyUntil = e.unhealthyUntil;
+      if (e.lastError !== undefined) m.lastError = e.lastError;
+      return m;
+    });
+  }
+}
@@ -1,5 +1,10 @@
+import type { JobState, ValidationIssue } from "./types.js";
+
 /** Base error class for the Forge SDK. */
 export class ForgeError extends Error {
+  /** Errors from earlier attempts of the same request, oldest first. Empty unless the request was retried. */
+  previousAttempts: ForgeError[] = [];
+
   constructor(message: string) {
     super(message);
     this.name = "ForgeError";
@@ -27,3 +32,74 @@ export class ForgeConnectionError extends ForgeError {
     this.cause = cause;
   }
 }
+
+/** The request did not complete within its timeout. */
+export class ForgeTimeoutError extends ForgeConnectionError {
+  readonly timeout: number;
+
+  constructor(timeout: number, cause?: unknown) {
+    super(cause);
+    this.message = `request timed out after ${timeout}ms`;
+    this.name = "ForgeTimeoutError";
+    this.timeout = timeout;
+  }
+}
+
+/** The request was cancelled through the caller's AbortSignal. */
+export class ForgeAbortError extends ForgeError {
+  readonly reason: unknown;
+
+  constructor(reason?: unknown) {
+    super("request aborted");
+    this.name = "ForgeAbortError";
+    this.reason = reason;
+  }
+}
+
+/** The request failed client-side validation and was not sent. */
+export class ForgeValidationError extends ForgeError {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const details = issues.map((i) => `${i.path} [${i.rule}]: ${i.message}`).join("; ");
+    super(`validation error: ${details}`);
+    this.name = "ForgeValidationError";
+    this.issues = issues;
+  }
+}
+
+/** The request uses features the server does not advertise and was not sent. */
+export class ForgeCapabilityError extends ForgeError {
+  /** Version reported by the server. */
+  readonly serverVersion: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(serverVersion: string, issues: ValidationIssue[]) {
+    const details = issues.map((i) => `${i.path}: ${i.message}`).join("; ");
+    super(`unsupported by server ${serverVersion}: ${details}`);
+    this.name = "ForgeCapabilityError";
+    this.serverVersion = serverVersion;
+    this.issues = issues;
+  }
+}
+
+/** An asynchronous render job ended without producing output. */
+export class ForgeJobError extends ForgeError {
+  readonly jobId: string;
+  readonly state: JobState;
+
+  constructor(jobId: string, state: JobState, message?: string) {
+    super(`job ${jobId} ${state}${message ? `: ${message}` : ""}`);
+    this.name = "ForgeJobError";
+    this.jobId = jobId;
+    this.state = state;
+  }
+}
+
+/** A template could not be parsed or rendered. */
+export class ForgeTemplateError extends ForgeError {
+  constructor(message: string) {
+    super(`template error: ${message}`);
+    this.name = "ForgeTemplateError";
+  }
+}
@@ -0,0 +1,121 @@
+import type { ForgeError } from "./error.js";
+import type { ForgeWarning, Orientation, OutputFormat } from "./types.js";
+
+/** Fields shared by every lifecycle event. */
+export interface RequestEventBase {
+  /** Identifies one client call across its attempts and events. */
+  requestId: number;
+  method: string;
+  /** Request path, e.g. "/render". */
+  path: string;
+  /** Attempt number (1-based) when the client retries. */
+  attempt: number;
+  /** Base URL the attempt was sent to. */
+  endpoint: string;
+  /** Output format, for render requests and barcodes. */
+  format?: OutputFormat;
+  paper?: string;
+  orientation?: Orientation;
+  width?: number;
+  height?: number;
+  /** Size of the JSON request body in bytes. */
+  payloadSize?: number;
+}
+
+/** Emitted as an attempt is sent, after middleware. */
+export interface RequestStartEvent extends RequestEventBase {
+  /** Outgoing headers; listeners may add to them, e.g. trace context. */
+  headers: Headers;
+}
+
+/** Emitted when response headers arrive, for any status. */
+export interface ResponseEvent extends RequestEventBase {
+  status: number;
+  /** Milliseconds since the attempt was sent. */
+  duration: number;
+  /** Value of the `Content-Length` header, if the server sent one. */
+  contentLength?: number;
+}
+
+/**
+ * Emitted once a successful request is finished: when the output has been
+ * read for renders, barcodes and job results (for `sendStream()`, when the
+ * stream ends), and with the response headers for everything else.
+ */
+export interface CompleteEvent extends RequestEventBase {
+  status: number;
+  /** Milliseconds since the attempt was sent. */
+  duration: number;
+  /** Bytes received, or the `Content-Length` of responses that are not read. */
+  responseSize?: number;
+}
+
+/** Emitted for each failed attempt, including server errors and aborts. */
+export interface RequestErrorEvent extends RequestEventBase {
+  error: ForgeError;
+  /** Response status, when the server answered. */
+  status?: number;
+  /** Milliseconds since the attempt was sent. */
+  duration: number;
+  /** True if the client will fail over or retry. */
+  willRetry: boolean;
+}
+
+/** Emitted when a successful response carries `X-Forge-Warning` headers. */
+export interface WarningsEvent extends RequestEventBase {
+  warnings: ForgeWarning[];
+}
+
+/** Lifecycle events of `ForgeClient.on()`. */
+export interface ForgeEventMap {
+  request: RequestStartEvent;
+  response: ResponseEvent;
+  complete: CompleteEvent;
+  error: RequestErrorEvent;
+  warnings: WarningsEvent;
+}
+
+/** Listener for one lifecycle event. */
+export type ForgeEventListener<K extends keyof ForgeEventMap> = (event: ForgeEventMap[K]) => void;
+
+/**
+ * @internal — listener registry behind `ForgeClient.on()`. Clients derived
+ * with `withDefaults()` share it, and with it the request id sequence.
+ */
+export class ForgeEvents {
+  private readonly listeners = new Map<keyof ForgeEventMap, Set<(event: never) => void>>();
+  private requestSeq = 0;
+
+  /** Id for the next client call, unique among the clients sharing these events. */
+  nextRequestId(): number {
+    return ++this.requestSeq;
+  }
+
+  on<K extends keyof ForgeEventMap>(type: K, listener: ForgeEventListener<K>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) this.listeners.set(type, (set = new Set()));
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  /** Whether anything listens, so callers can skip building events. */
+  has(type?: keyof ForgeEventMap): boolean {
+    const sets = type ? [this.listeners.get(type)] : [...this.listeners.values()];
+    return sets.some((set) => set !== undefined && set.size > 0);
+  }
+
+  emit<K extends keyof ForgeEventMap>(type: K, event: ForgeEventMap[K]): void {
+    const set = this.listeners.get(type) as Set<ForgeEventListener<K>> | undefined;
+    if (!set) return;
+    for (const listener of set) {
+      // Listener failures never fail a request.
+      try {
+        listener(event);
+      } catch {
+        // ignored
+      }
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { ForgeAbortError, ForgeConnectionError, ForgeServerError } from "./error.js";
+import type { ErrorResponse } from "./types.js";
+
+/** @internal — build a ForgeServerError from a non-2xx response. */
+export async function serverError(resp: Response): Promise<ForgeServerError> {
+  let message: string;
+  try {
+    const body = (await resp.json()) as ErrorResponse;
+    message = body.error;
+  } catch {
+    message = `HTTP ${resp.status}`;
+  }
+  return new ForgeServerError(resp.status, message);
+}
+
+/** @internal — the Forge error for a failure while reading a response body. */
+export function bodyError(e: unknown, signal?: AbortSignal): ForgeAbortError | ForgeConnectionError {
+  return signal?.aborted ? new ForgeAbortError(signal.reason) : new ForgeConnectionError(e);
+}
+
+/** @internal — buffer a response body, mapping failures to Forge errors. */
+export async function readBody(resp: Response, signal?: AbortSignal): Promise<Uint8Array> {
+  try {
+    return new Uint8Array(await resp.arrayBuffer());
+  } catch (e) {
+    throw bodyError(e, signal);
+  }
+}
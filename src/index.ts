@@ -1,9 +1,57 @@
-export { ForgeError, ForgeServerError, ForgeConnectionError } from "./error.js";
+export {
+  ForgeError,
+  ForgeServerError,
+  ForgeConnectionError,
+  ForgeValidationError,
+  ForgeJobError,
+  ForgeTemplateError,
+  ForgeTimeoutError,
+  ForgeAbortError,
+  ForgeCapabilityError,
+} from "./error.js";
+export { API_VERSION } from "./capabilities.js";
+export { builtinTemplateEngine } from "./template.js";
+export type { TemplateEngine, TemplateDefinition } from "./template.js";
+export { mergePresets, parsePreset } from "./preset.js";
+export { MemoryCacheStore } from "./cache.js";
+export type { CacheEntry, CacheStore, RenderCacheOptions } from "./cache.js";
+export { bearerAuth, apiKeyAuth, logging, redactPayload } from "./middleware.js";
+export type {
+  Middleware,
+  MiddlewareContext,
+  CredentialSource,
+  LoggingOptions,
+  RequestLogEntry,
+} from "./middleware.js";
+export { RenderJob } from "./job.js";
+export { findAssetReferences, missingAssets } from "./assets.js";
+export { gs1, gs1CheckDigit, validateBarcode } from "./barcode.js";
+export { detectMimeType } from "./binary.js";
+export type { UploadLimits } from "./binary.js";
+export type { EndpointMetrics, LoadBalancingOptions, LoadBalancingStrategy } from "./endpoints.js";
+export type { QueueStats, RateLimitOptions } from "./limiter.js";
+export { instrumentOpenTelemetry } from "./otel.js";
+export type { OpenTelemetryOptions, OtelSpan, OtelSpanContext, OtelTracer } from "./otel.js";
+export type {
+  ForgeEventMap,
+  ForgeEventListener,
+  RequestEventBase,
+  RequestStartEvent,
+  ResponseEvent,
+  CompleteEvent,
+  RequestErrorEvent,
+  WarningsEvent,
+} from "./events.js";
+export type { Gs1Element } from "./barcode.js";
+export type { JobWaitOptions } from "./job.js";
+export type { BatchOptions, BatchProgress, BatchResult } from "./batch.js";
+export type { RetryOptions, RetryEvent, RetryErrorKind, RetryJitter } from "./retry.js";
 export {
   PdfStandard,
   EmbedRelationship,
   BarcodeType,
   BarcodeAnchor,
+  PdfPermission,
 } from "./types.js";
 export type {
   OutputFormat,
@@ -13,87 +61,774 @@ export type {
   Palette,
   PalettePreset,
   WatermarkLayer,
+  WatermarkOptions,
+  WatermarkPayload,
+  WatermarkPosition,
+  BinaryInput,
   EmbeddedFilePayload,
+  HeaderFooterOptions,
+  HeaderFooterPayload,
+  PageVariant,
+  HtmlAsset,
+  AssetPayload,
   BarcodePayload,
+  BarcodeImageOptions,
+  BarcodeImagePayload,
+  ErrorCorrection,
   PdfMode,
   AccessibilityLevel,
   SignatureOptions,
   EncryptionOptions,
+  EncryptionAlgorithm,
+  EInvoiceFlavor,
+  EInvoiceOptions,
+  EInvoicePayload,
+  EInvoiceProfile,
+  ForgeWarning,
+  WarningLocation,
   RenderResponse,
+  RenderStream,
+  RenderPreset,
+  SendOptions,
+  RequestPriority,
+  ValidationIssue,
+  JobState,
+  JobStatus,
+  ServerInfo,
+  ServerCapabilities,
+  ServerLimits,
+  HealthStatus,
+  InfoOptions,
 } from "./types.js";
 
-import { ForgeConnectionError, ForgeServerError } from "./error.js";
+import {
+  ForgeAbortError,
+  ForgeCapabilityError,
+  ForgeConnectionError,
+  ForgeError,
+  ForgeTemplateError,
+  ForgeTimeoutError,
+  ForgeValidationError,
+} from "./error.js";
+import { bodyError, readBody, serverError } from "./http.js";
+import { collectBatch, runBatch } from "./batch.js";
+import { cacheKey, isCacheable } from "./cache.js";
+import { EndpointPool } from "./endpoints.js";
+import { ForgeEvents } from "./events.js";
+import type { ForgeEventListener, ForgeEventMap, RequestEventBase } from "./events.js";
+import { RequestLimiter } from "./limiter.js";
+import type { QueueStats, RateLimitOptions } from "./limiter.js";
+import type { Endpoint, EndpointMetrics, LoadBalancingOptions } from "./endpoints.js";
+import { parseServerInfo, unsupportedBarcodeFeatures, unsupportedFeatures } from "./capabilities.js";
+import type { RenderCacheOptions } from "./cache.js";
+import { RenderJob } from "./job.js";
+import { runMiddleware } from "./middleware.js";
+import type { Middleware, MiddlewareContext } from "./middleware.js";
+import { PRESET_LIST_KEYS, PRESET_SCALAR_KEYS } from "./preset.js";
+import { builtinTemplateEngine } from "./template.js";
+import type { TemplateDefinition, TemplateEngine } from "./template.js";
+import { guessMimeType } from "./assets.js";
+import { withCheckDigit } from "./barcode.js";
+import {
+  bytesOf,
+  DEFAULT_UPLOAD_LIMITS,
+  detectBase64MimeType,
+  detectMimeType,
+  readBinary,
+  uploadLimitIssues,
+} from "./binary.js";
+import type { UploadLimits } from "./binary.js";
+import { eInvoiceMetadata } from "./einvoice.js";
+import { toBase64 } from "./encoding.js";
+import type { BatchOptions, BatchResult } from "./batch.js";
+import {
+  backoffDelay,
+  parseRetryAfter,
+  resolveRetryOptions,
+  sleep,
+} from "./retry.js";
+import type { ResolvedRetryOptions, RetryOptions } from "./retry.js";
 import {
   PdfStandard,
   EmbedRelationship,
   BarcodeType,
   BarcodeAnchor,
+  PdfPermission,
 } from "./types.js";
 import type {
   AccessibilityLevel,
+  AssetPayload,
+  BinaryInput,
+  BarcodeImageOptions,
+  BarcodeImagePayload,
   BarcodePayload,
   DitherMethod,
+  EInvoiceOptions,
+  EInvoicePayload,
   EmbeddedFilePayload,
-  ErrorResponse,
+  EncryptionAlgorithm,
+  ErrorCorrection,
+  HeaderFooterOptions,
+  HeaderFooterPayload,
+  HealthResponse,
+  HealthStatus,
+  HtmlAsset,
+  InfoOptions,
   Flow,
+  JobStatusResponse,
   Orientation,
   OutputFormat,
   Palette,
   PdfMode,
   RenderPayload,
+  RenderPreset,
   RenderResponse,
+  RenderStream,
+  SendOptions,
+  ServerCapabilities,
+  ServerInfo,
+  ServerInfoResponse,
+  ValidationIssue,
   WatermarkLayer,
+  WatermarkOptions,
+  WatermarkPayload,
 } from "./types.js";
+import { validateBarcodeImage, validatePayload } from "./validate.js";
+import { parseWarnings } from "./warnings.js";
 
 /** Options for creating a ForgeClient. */
 export interface ForgeClientOptions {
+  /** Endpoint selection and cool-down when the client has several base URLs. */
+  loadBalancing?: LoadBalancingOptions;
   /** HTTP request timeout in milliseconds (default: 120000). */
   timeout?: number;
+  /**
+   * Retry policy for idempotent requests (`/health`, `/info`, `/render`, `/barcode`).
+   * When omitted, every request is attempted exactly once.
+   */
+  retry?: RetryOptions;
+  /**
+   * Validate every payload before sending and throw ForgeValidationError
+   * instead of making the request (default: false).
+   */
+  strictValidation?: boolean;
+  /** Engine for `renderTemplate()` (default: the built-in engine). */
+  templateEngine?: TemplateEngine;
+  /**
+   * Middleware run in order around every request attempt, e.g.
+   * `[bearerAuth(token), logging()]`. See `Middleware`.
+   */
+  middleware?: Middleware[];
+  /**
+   * Opt-in cache for `send()` and `sendWithWarnings()`, keyed by a hash of
+   * the payload. Signed or encrypted documents are never cached.
+   */
+  cache?: RenderCacheOptions;
+  /**
+   * Maximum render requests (`/render`, job submissions, `/barcode`) in
+   * flight at once; further requests wait in a priority queue. A slot is
+   * held until the response headers arrive (default: unlimited).
+   */
+  maxConcurrent?: number;
+  /** Token bucket applied to the same render requests (default: none). */
+  rateLimit?: RateLimitOptions;
+  /** Maximum sizes of attachments, certificates and watermark images; see `UploadLimits`. */
+  uploadLimits?: UploadLimits;
+  /**
+   * Fetch the server's capabilities once (see `info()`) and throw
+   * ForgeCapabilityError instead of sending a request that uses a format,
+   * PDF feature or barcode type the server does not advertise (default: false).
+   */
+  checkCapabilities?: boolean;
+}
+
+/** @internal — per-call options for `ForgeClient.doFetch()`. */
+export interface FetchOptions extends SendOptions {
+  /** Render payload, exposed to middleware and sent as the JSON body. */
+  payload?: RenderPayload;
+  /** Send to this endpoint only, e.g. the one holding a job. */
+  endpoint?: string;
+  /**
+   * The caller reads the body as output through `readOutput()` or
+   * `trackStream()`, which emit the `complete` event.
+   */
+  output?: boolean;
+}
+
+/** @internal — what `readOutput()` needs to know about a response. */
+interface ResponseInfo {
+  endpoint: string;
+  sentAt: number;
+  base?: RequestEventBase;
+  /** Stops forwarding the caller's abort signal once the body is done. */
+  detach: () => void;
 }
 
-/** Client for a Forge rendering server. */
+/** POST paths that start rendering work, subject to `maxConcurrent` and `rateLimit`. */
+const LIMITED_PATHS = new Set(["/render", "/render/jobs", "/barcode"]);
+
+/** Paths that are safe to send more than once, besides job status and result GETs. */
+const IDEMPOTENT_PATHS = new Set(["/health", "/info", "/render", "/barcode"]);
+
+/** Error codes of fetch failures where the request cannot have reached a server. */
+const CONNECT_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/** Whether a fetch failure happened before a connection was established. */
+function isConnectError(e: unknown): boolean {
+  const cause = (e as { cause?: { code?: unknown } } | undefined)?.cause;
+  return typeof cause?.code === "string" && CONNECT_ERROR_CODES.has(cause.code);
+}
+
+/**
+ * Client for a Forge rendering server, or for several interchangeable
+ * servers with client-side load balancing and failover.
+ */
 export class ForgeClient {
-  private readonly baseUrl: string;
+  private readonly pool: EndpointPool;
+  private readonly responses = new WeakMap<Response, ResponseInfo>();
+  private readonly events = new ForgeEvents();
+  private readonly limiter: RequestLimiter;
   private readonly timeout: number;
-
-  constructor(baseUrl: string, options?: ForgeClientOptions) {
-    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  private readonly retry: ResolvedRetryOptions;
+  private readonly middleware: Middleware[];
+  private readonly templateEngine: TemplateEngine;
+  private readonly templates = new Map<string, TemplateDefinition>();
+  private readonly partials: Record<string, string> = {};
+  private presets: RenderPreset[] = [];
+  private readonly checkCapabilities: boolean;
+  private infoCache?: Promise<ServerInfo>;
+  /** @internal */
+  readonly strictValidation: boolean;
+  /** @internal */
+  readonly cache?: RenderCacheOptions;
+  /** @internal */
+  readonly uploadLimits: Required<UploadLimits>;
+
+  /**
+   * With a list of base URLs, each request goes to one of them (see
+   * `loadBalancing`). An endpoint that refuses connections or fails its
+   * health check is skipped for a cool-down period, and a request that hits
+   * a connection error is sent to the next endpoint without counting as a retry.
+   */
+  constructor(baseUrl: string | string[], options?: ForgeClientOptions) {
+    const urls = (Array.isArray(baseUrl) ? baseUrl : [baseUrl]).map((url) => url.replace(/\/+$/, ""));
+    if (urls.length === 0) throw new ForgeError("at least one base URL is required");
+    this.pool = new EndpointPool(urls, options?.loadBalancing);
+    this.limiter = new RequestLimiter(options?.maxConcurrent, options?.rateLimit);
     this.timeout = options?.timeout ?? 120_000;
+    this.retry = resolveRetryOptions(options?.retry);
+    this.strictValidation = options?.strictValidation ?? false;
+    this.templateEngine = options?.templateEngine ?? builtinTemplateEngine;
+    this.middleware = options?.middleware ?? [];
+    this.cache = options?.cache;
+    this.uploadLimits = { ...DEFAULT_UPLOAD_LIMITS, ...options?.uploadLimits };
+    this.checkCapabilities = options?.checkCapabilities ?? false;
   }
 
   /** Start a render request from an HTML string. */
   renderHtml(html: string): RenderRequestBuilder {
-    return new RenderRequestBuilder(this, { html });
+    return this.withPresets(new RenderRequestBuilder(this, { html }));
   }
 
   /** Start a render request from a URL. */
   renderUrl(url: string): RenderRequestBuilder {
-    return new RenderRequestBuilder(this, { url });
+    return this.withPresets(new RenderRequestBuilder(this, { url }));
+  }
+
+  /**
+   * Return a client whose builders start from `preset`, layered on top of
+   * this client's own defaults. The derived client shares everything else
+   * (connection settings, registered templates) with this one.
+   */
+  withDefaults(preset: RenderPreset): ForgeClient {
+    const derived = Object.create(this) as ForgeClient;
+    derived.presets = [...this.presets, preset];
+    return derived;
+  }
+
+  private withPresets(builder: RenderRequestBuilder): RenderRequestBuilder {
+    for (const preset of this.presets) builder.apply(preset);
+    return builder;
+  }
+
+  /** Register a named template for `renderTemplate()`. Replaces any template with the same name. */
+  registerTemplate(name: string, template: TemplateDefinition): this {
+    this.templates.set(name, template);
+    return this;
+  }
+
+  /** Register a partial available to every template as `{{> name}}`. */
+  registerPartial(name: string, source: string): this {
+    this.partials[name] = source;
+    return this;
+  }
+
+  /**
+   * Start a render request from a template and data. Pass a registered
+   * template name or an inline definition. The template's default settings
+   * are applied before the builder is returned, so they can be overridden.
+   */
+  renderTemplate(template: string | TemplateDefinition, data: unknown): RenderRequestBuilder {
+    const def = typeof template === "string" ? this.templates.get(template) : template;
+    if (!def) throw new ForgeTemplateError(`unknown template "${template}"`);
+    const engine = def.engine ?? this.templateEngine;
+    const html = engine.render(def.source, data, { ...this.partials, ...def.partials });
+    const builder = this.renderHtml(html);
+    if (typeof def.defaults === "function") def.defaults(builder);
+    else if (def.defaults) builder.apply(def.defaults);
+    return builder;
+  }
+
+  /**
+   * Send many render requests with bounded concurrency.
+   * Resolves with one result per builder, in input order: render failures
+   * are reported per item. Rejects only with ForgeError for a `concurrency`
+   * of NaN.
+   */
+  renderBatch(
+    builders: readonly RenderRequestBuilder[],
+    options?: BatchOptions,
+  ): Promise<BatchResult[]> {
+    return collectBatch(builders, options);
+  }
+
+  /** Like `renderBatch()`, but yields each result as soon as it finishes. */
+  renderBatchIterator(
+    builders: readonly RenderRequestBuilder[],
+    options?: BatchOptions,
+  ): AsyncGenerator<BatchResult, void, undefined> {
+    return runBatch(builders, options);
+  }
+
+  /**
+   * Get a handle to an existing asynchronous render job, e.g. after a
+   * restart. With several endpoints, pass the saved `RenderJob.endpoint`.
+   */
+  job(id: string, endpoint?: string): RenderJob {
+    return new RenderJob(this, id, endpoint?.replace(/\/+$/, ""));
+  }
+
+  /**
+   * Render a single barcode to a PNG or SVG image, without HTML. With
+   * `strictValidation`, invalid data is rejected before the request.
+   */
+  async renderBarcode(type: BarcodeType, data: string, options?: BarcodeImageOptions): Promise<Uint8Array> {
+    const payload: BarcodeImagePayload = { type, data, format: options?.format ?? "png" };
+    if (options?.size !== undefined) payload.size = options.size;
+    if (options?.foreground !== undefined) payload.foreground = options.foreground;
+    if (options?.background !== undefined) payload.background = options.background;
+    if (options?.quietZone !== undefined) payload.quiet_zone = options.quietZone;
+    if (options?.errorCorrection !== undefined) payload.error_correction = options.errorCorrection;
+    if (options?.gs1) payload.gs1 = true;
+
+    if (this.strictValidation) {
+      const issues = validateBarcodeImage(payload);
+      if (issues.length > 0) throw new ForgeValidationError(issues);
+    }
+    await this.assertSupported((info) => unsupportedBarcodeFeatures(payload, info), options);
+    const resp = await this.doFetch(
+      "/barcode",
+      { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(payload) },
+      { signal: options?.signal, timeout: options?.timeout, priority: options?.priority, output: true },
+    );
+    return this.readOutput(resp, options?.signal);
+  }
+
+  /** Request counts, latency and health of each endpoint, in constructor order. */
+  endpointMetrics(): EndpointMetrics[] {
+    return this.pool.metrics();
+  }
+
+  /** Depth of the render queue and time spent waiting in it; see `maxConcurrent`. */
+  queueStats(): QueueStats {
+    return this.limiter.stats();
+  }
+
+  /**
+   * Listen to request lifecycle events: `request`, `response`, `complete`,
+   * `error` and `warnings` (see `ForgeEventMap`). Returns a function that
+   * removes the listener. Exceptions thrown by listeners are ignored.
+   */
+  on<K extends keyof ForgeEventMap>(type: K, listener: ForgeEventListener<K>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /** @internal — base URL of the endpoint that produced `resp`. */
+  endpointOf(resp: Response): string | undefined {
+    return this.responses.get(resp)?.endpoint;
+  }
+
+  /** @internal — buffer an output body and emit `complete` or `error`. */
+  async readOutput(resp: Response, signal?: AbortSignal): Promise<Uint8Array> {
+    const info = this.responses.get(resp);
+    let data: Uint8Array;
+    try {
+      data = await readBody(resp, signal);
+    } catch (e) {
+      info?.detach();
+      if (info?.base) {
+        const duration = Date.now() - info.sentAt;
+        const error = e as ForgeError;
+        this.events.emit("error", { ...info.base, error, status: resp.status, duration, willRetry: false });
+      }
+      throw e;
+    }
+    info?.detach();
+    if (info?.base) {
+      const duration = Date.now() - info.sentAt;
+      this.events.emit("complete", { ...info.base, status: resp.status, duration, responseSize: data.length });
+    }
+    return data;
+  }
+
+  /**
+   * @internal — the body of a streamed output, emitting `complete` when it
+   * ends and `error` when it fails or the consumer cancels it, and detaching
+   * the caller's signal either way. Read failures surface as
+   * ForgeAbortError or ForgeConnectionError, as in `readOutput()`.
+   */
+  trackStream(resp: Response, signal?: AbortSignal): ReadableStream<Uint8Array> {
+    const body = resp.body ?? new ReadableStream<Uint8Array>({ start: (c) => c.close() });
+    const info = this.responses.get(resp);
+    if (!info) return body;
+    const reader = body.getReader();
+    let size = 0;
+    const fail = (error: ForgeError) => {
+      info.detach();
+      if (!info.base) return;
+      const duration = Date.now() - info.sentAt;
+      this.events.emit("error", { ...info.base, error, status: resp.status, duration, willRetry: false });
+    };
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        let chunk: ReadableStreamReadResult<Uint8Array>;
+        try {
+          chunk = await reader.read();
+        } catch (e) {
+          const error = bodyError(e, signal);
+          fail(error);
+          controller.error(error);
+          return;
+        }
+        if (!chunk.done) {
+          size += chunk.value.length;
+          controller.enqueue(chunk.value);
+          return;
+        }
+        info.detach();
+        controller.close();
+        if (info.base) {
+          const duration = Date.now() - info.sentAt;
+          this.events.emit("complete", { ...info.base, status: resp.status, duration, responseSize: size });
+        }
+      },
+      cancel: (reason) => {
+        fail(new ForgeAbortError(reason));
+        return reader.cancel(reason);
+      },
+    });
+  }
+
+  /** Event fields describing one attempt. */
+  private eventBase(
+    requestId: number,
+    ctx: MiddlewareContext,
+    endpoint: string,
+    body: BodyInit | null | undefined,
+  ): RequestEventBase {
+    const base: RequestEventBase = {
+      requestId,
+      method: ctx.method,
+      path: ctx.path,
+      attempt: ctx.attempt,
+      endpoint,
+    };
+    let fields: Partial<RenderPayload> | undefined = ctx.payload;
+    if (!fields && ctx.path === "/barcode" && typeof body === "string") {
+      fields = JSON.parse(body) as Partial<RenderPayload>;
+    }
+    if (fields?.format !== undefined) base.format = fields.format;
+    if (fields?.paper !== undefined) base.paper = fields.paper;
+    if (fields?.orientation !== undefined) base.orientation = fields.orientation;
+    if (fields?.width !== undefined) base.width = fields.width;
+    if (fields?.height !== undefined) base.height = fields.height;
+    if (typeof body === "string") base.payloadSize = new TextEncoder().encode(body).length;
+    return base;
   }
 
   /** Check if the server is healthy. */
   async health(): Promise<boolean> {
     try {
-      const resp = await this.doFetch("/health", { method: "GET" });
-      return resp.ok;
+      await this.doFetch("/health", { method: "GET" });
+      return true;
     } catch {
       return false;
     }
   }
 
-  /** @internal — not part of the public API. */
-  async doFetch(path: string, init: RequestInit): Promise<Response> {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), this.timeout);
+  /**
+   * Check the server and report its latency, version and queue depth.
+   * Never throws; a failed check has `healthy: false` and an `error`.
+   */
+  async healthDetails(options?: SendOptions): Promise<HealthStatus> {
+    const started = Date.now();
     try {
-      return await fetch(`${this.baseUrl}${path}`, {
-        ...init,
-        signal: controller.signal,
+      const resp = await this.doFetch("/health", { method: "GET" }, options);
+      const latency = Date.now() - started;
+      const body = (await resp.json().catch(() => ({}))) as HealthResponse;
+      const status: HealthStatus = { healthy: true, latency };
+      if (typeof body.version === "string") status.version = body.version;
+      if (typeof body.queue_depth === "number") status.queueDepth = body.queue_depth;
+      return status;
+    } catch (e) {
+      return { healthy: false, latency: Date.now() - started, error: (e as Error).message };
+    }
+  }
+
+  /**
+   * Server version, capabilities and limits from `GET /info`. The result is
+   * cached per client; pass `refresh: true` to fetch it again.
+   */
+  async info(options?: InfoOptions): Promise<ServerInfo> {
+    if (!this.infoCache || options?.refresh) {
+      const pending = this.doFetch("/info", { method: "GET" }, options).then(async (resp) =>
+        parseServerInfo((await resp.json()) as ServerInfoResponse),
+      );
+      this.infoCache = pending;
+      // Don't cache failures.
+      pending.catch(() => {
+        if (this.infoCache === pending) this.infoCache = undefined;
       });
-    } finally {
-      clearTimeout(timer);
+    }
+    return this.infoCache;
+  }
+
+  /** Formats, paper sizes, PDF features and barcode types the server supports; see `info()`. */
+  async capabilities(options?: InfoOptions): Promise<ServerCapabilities> {
+    return (await this.info(options)).capabilities;
+  }
+
+  /**
+   * @internal — with `checkCapabilities`, throw ForgeCapabilityError if
+   * `check` reports anything the server does not support.
+   */
+  async assertSupported(check: (info: ServerInfo) => ValidationIssue[], options?: SendOptions): Promise<void> {
+    if (!this.checkCapabilities) return;
+    const info = await this.info({ signal: options?.signal, timeout: options?.timeout });
+    const issues = check(info);
+    if (issues.length > 0) throw new ForgeCapabilityError(info.version, issues);
+  }
+
+  /**
+   * @internal — not part of the public API.
+   *
+   * Resolves with a 2xx response, or rejects with ForgeServerError /
+   * ForgeConnectionError / ForgeTimeoutError / ForgeAbortError once the
+   * retry policy is exhausted. A `payload` is exposed to middleware and sent
+   * as the JSON request body. Connection errors fail over to the next
+   * endpoint before the retry policy is consulted; for requests that are not
+   * idempotent, only when the connection could not be established.
+   */
+  async doFetch(path: string, init: RequestInit, options?: FetchOptions): Promise<Response> {
+    const idempotent = IDEMPOTENT_PATHS.has(path) || (init.method === "GET" && path.startsWith("/render/jobs/"));
+    const maxAttempts = idempotent ? this.retry.maxAttempts : 1;
+    const timeout = options?.timeout ?? this.timeout;
+    const signal = options?.signal;
+    const payload = options?.payload;
+    const limited = init.method === "POST" && LIMITED_PATHS.has(path);
+    const requestId = this.events.nextRequestId();
+    const previous: ForgeError[] = [];
+    const pinned = options?.endpoint !== undefined ? this.pool.find(options.endpoint) : undefined;
+    if (options?.endpoint !== undefined && !pinned) {
+      throw new ForgeError(`${options.endpoint} is not an endpoint of this client`);
+    }
+    // Endpoints that failed to connect during the current attempt.
+    const tried = new Set<Endpoint>();
+
+    const aborted = (): ForgeAbortError => {
+      const err = new ForgeAbortError(signal?.reason);
+      err.previousAttempts = previous;
+      return err;
+    };
+
+    for (let attempt = 1; ; ) {
+      if (signal?.aborted) throw aborted();
+
+      let error: ForgeError;
+      let retryable: boolean;
+      let retryAfter: number | undefined;
+
+      // Time spent queued counts against the timeout.
+      let slot = { wait: 0, release: () => {} };
+      if (limited) {
+        try {
+          slot = await this.limiter.acquire(options?.priority ?? "normal", signal, timeout);
+        } catch (reason) {
+          if (reason === "abort") throw aborted();
+          const err = new ForgeTimeoutError(timeout);
+          err.previousAttempts = previous;
+          throw err;
+        }
+      }
+      const endpoint = pinned ?? this.pool.pick(tried)!;
+
+      const ctx: MiddlewareContext = {
+        path,
+        endpoint: endpoint.url,
+        method: init.method ?? "GET",
+        headers: new Headers(init.headers),
+        // Copy so rewrites by middleware don't leak into the next attempt.
+        payload: payload !== undefined && this.middleware.length > 0 ? structuredClone(payload) : payload,
+        attempt,
+        startedAt: Date.now(),
+        queueWait: slot.wait,
+        state: {},
+      };
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeout - slot.wait);
+      const onAbort = () => controller.abort(signal?.reason);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      const detach = () => signal?.removeEventListener("abort", onAbort);
+      let succeeded = false;
+      let unreachable = false;
+      let failover = false;
+      let status: number | undefined;
+      let sentAt = ctx.startedAt;
+      let base: RequestEventBase | undefined;
+      // Built lazily: only when someone listens, and after middleware when the request is sent.
+      const eventBase = () => (base ??= this.eventBase(requestId, ctx, endpoint.url, init.body));
+      const emitError = (err: ForgeError, willRetry: boolean) => {
+        if (!this.events.has("error")) return;
+        this.events.emit("error", { ...eventBase(), error: err, status, duration: Date.now() - sentAt, willRetry });
+      };
+      try {
+        const resp = await runMiddleware(this.middleware, ctx, async (c) => {
+          const body = c.payload !== undefined ? JSON.stringify(c.payload) : init.body;
+          sentAt = Date.now();
+          if (this.events.has()) {
+            base = this.eventBase(requestId, c, endpoint.url, body);
+            this.events.emit("request", { ...base, headers: c.headers });
+          }
+          endpoint.requests++;
+          endpoint.inFlight++;
+          try {
+            const r = await fetch(`${endpoint.url}${c.path}`, {
+              ...init,
+              method: c.method,
+              headers: c.headers,
+              body,
+              signal: controller.signal,
+            });
+            this.pool.succeeded(endpoint, Date.now() - sentAt);
+            return r;
+          } catch (e) {
+            unreachable = !controller.signal.aborted;
+            throw e;
+          } finally {
+            endpoint.inFlight--;
+          }
+        });
+        status = resp.status;
+        const length = resp.headers.get("Content-Length");
+        const contentLength = length !== null && /^\d+$/.test(length) ? Number(length) : undefined;
+        if (this.events.has()) {
+          this.events.emit("response", { ...eventBase(), status, duration: Date.now() - sentAt, contentLength });
+        }
+        if (resp.ok) {
+          succeeded = true;
+          this.responses.set(resp, { endpoint: endpoint.url, sentAt, base, detach });
+          if (this.events.has("warnings") && resp.headers.has("X-Forge-Warning")) {
+            this.events.emit("warnings", { ...eventBase(), warnings: parseWarnings(resp.headers) });
+          }
+          if (!options?.output && this.events.has("complete")) {
+            const duration = Date.now() - sentAt;
+            this.events.emit("complete", { ...eventBase(), status, duration, responseSize: contentLength });
+          }
+          return resp;
+        }
+        error = await serverError(resp);
+        if (path === "/health") this.pool.failed(endpoint, error);
+        retryable = this.retry.retryOnStatus.includes(resp.status);
+        if (this.retry.respectRetryAfter) {
+          retryAfter = parseRetryAfter(resp.headers.get("Retry-After"));
+        }
+      } catch (e) {
+        if (e instanceof ForgeError) {
+          // Thrown deliberately by a middleware; never retried.
+          error = e;
+          retryable = false;
+        } else if (signal?.aborted) {
+          const err = aborted();
+          emitError(err, false);
+          throw err;
+        } else if (timedOut) {
+          error = new ForgeTimeoutError(timeout, e);
+          retryable = this.retry.retryOnErrors.includes("timeout");
+        } else {
+          error = new ForgeConnectionError(e);
+          retryable = this.retry.retryOnErrors.includes("connection");
+          if (unreachable) {
+            this.pool.failed(endpoint, error);
+            tried.add(endpoint);
+            // A request lost after it was sent may have been processed; only resend it if that is harmless.
+            failover = !pinned && tried.size < this.pool.endpoints.length && (idempotent || isConnectError(e));
+          }
+        }
+      } finally {
+        slot.release();
+        clearTimeout(timer);
+        // On success the listener stays attached, so aborting also stops the body.
+        // Output bodies keep it until readOutput() or trackStream() is done with them.
+        if (!succeeded || !options?.output) detach();
+      }
+
+      const willRetry = failover || (retryable && attempt < maxAttempts);
+      emitError(error, willRetry);
+      if (failover) {
+        // Same attempt, next endpoint; no backoff.
+        previous.push(error);
+        continue;
+      }
+      if (!willRetry) {
+        error.previousAttempts = previous;
+        throw error;
+      }
+
+      const delay =
+        retryAfter !== undefined
+          ? Math.min(retryAfter, this.retry.maxDelay)
+          : backoffDelay(this.retry, attempt);
+      this.retry.onRetry?.({ path, attempt, delay, error });
+      previous.push(error);
+      try {
+        await sleep(delay, signal);
+      } catch {
+        throw aborted();
+      }
+      tried.clear();
+      attempt++;
     }
   }
+
+}
+
+function headerFooterEntry(html: string, opts?: HeaderFooterOptions): HeaderFooterPayload {
+  const entry: HeaderFooterPayload = { html };
+  if (opts?.height !== undefined) entry.height = opts.height;
+  if (opts?.pages !== undefined) entry.pages = opts.pages;
+  if (opts?.variant !== undefined) entry.variant = opts.variant;
+  return entry;
 }
 
 /** Builder for a render request. */
@@ -101,6 +836,11 @@ export class RenderRequestBuilder {
   private readonly client: ForgeClient;
   private readonly _html?: string;
   private readonly _url?: string;
+  private readonly _assets = new Map<string, HtmlAsset>();
+  private _bypassCache = false;
+  /** Pending Blob and file reads, keyed by the slot they fill. */
+  private readonly _loads = new Map<string, Promise<void>>();
+  private _loadCount = 0;
   private _format: OutputFormat = "pdf";
   private _width?: number;
   private _height?: number;
@@ -133,6 +873,9 @@ export class RenderRequestBuilder {
   private _pdfEmbeddedFiles: EmbeddedFilePayload[] = [];
   private _pdfWatermarkPages?: string;
   private _pdfBarcodes: BarcodePayload[] = [];
+  private _pdfWatermarks: WatermarkPayload[] = [];
+  private _pdfHeaders: HeaderFooterPayload[] = [];
+  private _pdfFooters: HeaderFooterPayload[] = [];
   private _pdfMode?: PdfMode;
   private _pdfSignCertificate?: string;
   private _pdfSignPassword?: string;
@@ -142,10 +885,12 @@ export class RenderRequestBuilder {
   private _pdfSignTimestampUrl?: string;
   private _pdfUserPassword?: string;
   private _pdfOwnerPassword?: string;
-  private _pdfPermissions?: string;
+  private _pdfPermissions?: PdfPermission[] | string;
+  private _pdfEncryptionAlgorithm?: EncryptionAlgorithm;
   private _pdfAccessibility?: AccessibilityLevel;
   private _pdfLinearize?: boolean;
   private _pdfLang?: string;
+  private _pdfEInvoiceMetadata?: EInvoicePayload;
 
   /** @internal */
   constructor(
@@ -157,6 +902,132 @@ export class RenderRequestBuilder {
     this._url = source.url;
   }
 
+  /**
+   * Apply a preset on top of the current settings. Single values replace
+   * existing ones; barcodes, embedded files, watermarks, headers and footers
+   * are appended.
+   */
+  apply(preset: RenderPreset): this {
+    for (const key of PRESET_SCALAR_KEYS) {
+      const value = preset[key];
+      if (value !== undefined) (this[key] as (value: unknown) => this)(value);
+    }
+    if (preset.pdfBarcodes) this._pdfBarcodes.push(...preset.pdfBarcodes.map((b) => ({ ...b })));
+    if (preset.pdfEmbeddedFiles) this._pdfEmbeddedFiles.push(...preset.pdfEmbeddedFiles.map((f) => ({ ...f })));
+    if (preset.pdfWatermarks) this._pdfWatermarks.push(...preset.pdfWatermarks.map((w) => ({ ...w })));
+    if (preset.pdfHeaders) this._pdfHeaders.push(...preset.pdfHeaders.map((h) => ({ ...h })));
+    if (preset.pdfFooters) this._pdfFooters.push(...preset.pdfFooters.map((f) => ({ ...f })));
+    return this;
+  }
+
+  /** Capture the current settings (everything except the HTML/URL source and assets) as a preset. */
+  toPreset(): RenderPreset {
+    this.assertResolved();
+    // Builder fields are named after the preset keys with a leading underscore.
+    const fields = this as unknown as Record<string, unknown>;
+    const preset: Record<string, unknown> = {};
+    for (const key of PRESET_SCALAR_KEYS) {
+      const value = fields[`_${key}`];
+      if (value === undefined) continue;
+      preset[key] = Array.isArray(value) ? [...value] : typeof value === "object" ? { ...value } : value;
+    }
+    for (const key of PRESET_LIST_KEYS) {
+      const list = fields[`_${key}`] as object[];
+      if (list.length > 0) preset[key] = list.map((e) => ({ ...e }));
+    }
+    return preset as RenderPreset;
+  }
+
+  /**
+   * Read the Blob and `{ path }` inputs given to `pdfAttach()`,
+   * `pdfSignCertificate()` and the watermark image methods. Terminal methods
+   * call this themselves; call it before `buildPayload()`, `toPreset()` or
+   * `clone()` when such inputs are pending.
+   */
+  async resolve(): Promise<this> {
+    while (this._loads.size > 0) {
+      const loads = [...this._loads];
+      await Promise.all(loads.map(([, load]) => load));
+      for (const [key, load] of loads) {
+        if (this._loads.get(key) === load) this._loads.delete(key);
+      }
+    }
+    return this;
+  }
+
+  private assertResolved(): void {
+    if (this._loads.size > 0) throw new ForgeError("file or Blob inputs are still being read; await resolve() first");
+  }
+
+  /**
+   * Store `input` as base64 in `target[prop]`: right away for strings and
+   * bytes, on `resolve()` for Blobs and files. A later value for the same
+   * `key` wins over a read still in progress. `onData` receives the MIME
+   * type detected from the content.
+   */
+  private setBinary(
+    key: string,
+    target: object,
+    prop: string,
+    input: BinaryInput,
+    onData?: (mimeType: string | undefined) => void,
+  ): void {
+    const slot = target as Record<string, unknown>;
+    this._loads.delete(key);
+    if (typeof input === "string") {
+      slot[prop] = input;
+      onData?.(detectBase64MimeType(input));
+      return;
+    }
+    const bytes = bytesOf(input);
+    if (bytes) {
+      slot[prop] = toBase64(bytes);
+      onData?.(detectMimeType(bytes));
+      return;
+    }
+    if (target === this) slot[prop] = undefined;
+    const load: Promise<void> = readBinary(input as Blob | { path: string }).then((read) => {
+      if (this._loads.get(key) !== load) return;
+      slot[prop] = toBase64(read);
+      onData?.(detectMimeType(read));
+    });
+    // Failures surface from resolve(); don't report them as unhandled meanwhile.
+    load.catch(() => undefined);
+    this._loads.set(key, load);
+  }
+
+  /** Create an independent copy of this builder, including source, assets and `bypassCache()`. */
+  clone(): RenderRequestBuilder {
+    const copy = new RenderRequestBuilder(this.client, { html: this._html, url: this._url });
+    for (const [path, asset] of this._assets) copy._assets.set(path, asset);
+    copy._bypassCache = this._bypassCache;
+    return copy.apply(this.toPreset());
+  }
+
+  /**
+   * Attach a local file that the HTML references by relative URL
+   * (e.g. "css/style.css", "img/logo.png"). Replaces an asset with the same path.
+   */
+  asset(path: string, data: Uint8Array, mimeType?: string): this {
+    this._assets.set(path, { data, mimeType });
+    return this;
+  }
+
+  /** Attach several assets at once, keyed by relative path. */
+  assets(assets: Record<string, HtmlAsset | Uint8Array>): this {
+    for (const [path, asset] of Object.entries(assets)) {
+      if (asset instanceof Uint8Array) this.asset(path, asset);
+      else this.asset(path, asset.data, asset.mimeType);
+    }
+    return this;
+  }
+
+  /** Skip the client's render cache for this request (neither read nor written). */
+  bypassCache(bypass = true): this {
+    this._bypassCache = bypass;
+    return this;
+  }
+
   /** Output format (default: "pdf"). */
   format(format: OutputFormat): this {
     this._format = format;
@@ -277,15 +1148,31 @@ export class RenderRequestBuilder {
     return this;
   }
 
+  /**
+   * Add a PDF page header. The HTML may use the tokens `{page}`, `{pages}`,
+   * `{title}` and `{date}`. Call again with a `variant` or `pages` to give
+   * the first, odd or even pages their own header.
+   */
+  pdfHeader(html: string, opts?: HeaderFooterOptions): this {
+    this._pdfHeaders.push(headerFooterEntry(html, opts));
+    return this;
+  }
+
+  /** Add a PDF page footer; same tokens and options as `pdfHeader()`. */
+  pdfFooter(html: string, opts?: HeaderFooterOptions): this {
+    this._pdfFooters.push(headerFooterEntry(html, opts));
+    return this;
+  }
+
   /** PDF watermark: text to render as watermark. */
   pdfWatermarkText(text: string): this {
     this._pdfWatermarkText = text;
     return this;
   }
 
-  /** PDF watermark: base64-encoded image data. */
-  pdfWatermarkImage(base64Data: string): this {
-    this._pdfWatermarkImage = base64Data;
+  /** PDF watermark: PNG/JPEG image as base64, bytes, Blob or `{ path }`. */
+  pdfWatermarkImage(image: BinaryInput): this {
+    this.setBinary("pdfWatermarkImage", this, "_pdfWatermarkImage", image);
     return this;
   }
 
@@ -331,17 +1218,54 @@ export class RenderRequestBuilder {
     return this;
   }
 
-  /** Embed a file attachment in the PDF. Data must be base64-encoded. */
+  /**
+   * Embed a file attachment in the PDF. Data may be base64, bytes, a Blob or
+   * `{ path }`. Without `mimeType`, the type is detected from the content,
+   * then from the file name.
+   */
   pdfAttach(
     path: string,
-    data: string,
+    data: BinaryInput,
     options?: { mimeType?: string; description?: string; relationship?: EmbedRelationship }
   ): this {
-    const entry: EmbeddedFilePayload = { path, data };
+    const entry: EmbeddedFilePayload = { path, data: "" };
     if (options?.mimeType) entry.mime_type = options.mimeType;
     if (options?.description) entry.description = options.description;
     if (options?.relationship) entry.relationship = options.relationship;
     this._pdfEmbeddedFiles.push(entry);
+    this.setBinary(`attachment#${this._loadCount++}`, entry, "data", data, (detected) => {
+      if (entry.mime_type) return;
+      const byName = guessMimeType(path);
+      const mimeType = detected ?? (byName !== "application/octet-stream" ? byName : undefined);
+      if (mimeType) entry.mime_type = mimeType;
+    });
+    return this;
+  }
+
+  /**
+   * Turn the PDF into a ZUGFeRD / Factur-X e-invoice: embeds the invoice XML
+   * under the file name the standard requires, with the Alternative
+   * relationship, sets the XMP metadata and switches to PDF/A-3b.
+   * Throws ForgeValidationError if the XML is not a well-formed
+   * CrossIndustryInvoice or declares a different profile.
+   */
+  pdfEInvoice(xml: string | Uint8Array, options: EInvoiceOptions): this {
+    const text = typeof xml === "string" ? xml : new TextDecoder().decode(xml);
+    const meta = eInvoiceMetadata(text, options.profile, options.flavor ?? "factur-x");
+    const previous = this._pdfEInvoiceMetadata?.document_file_name;
+    if (previous !== undefined) this._pdfEmbeddedFiles = this._pdfEmbeddedFiles.filter((f) => f.path !== previous);
+    this.pdfAttach(meta.document_file_name, toBase64(typeof xml === "string" ? new TextEncoder().encode(xml) : xml), {
+      mimeType: "text/xml",
+      description: meta.flavor === "zugferd" ? "ZUGFeRD invoice" : "Factur-X invoice",
+      relationship: EmbedRelationship.Alternative,
+    });
+    this._pdfStandard = PdfStandard.A3B;
+    return this.pdfEInvoiceMetadata(meta);
+  }
+
+  /** E-invoice XMP metadata; set by `pdfEInvoice()`, exposed for presets. */
+  pdfEInvoiceMetadata(metadata: EInvoicePayload): this {
+    this._pdfEInvoiceMetadata = metadata;
     return this;
   }
 
@@ -351,7 +1275,32 @@ export class RenderRequestBuilder {
     return this;
   }
 
-  /** Add a barcode to the PDF output. */
+  /**
+   * Add a watermark. Unlike the single-watermark `pdfWatermark*()` methods,
+   * this can be called repeatedly to stack watermarks, each with its own
+   * pages, layer, opacity and position.
+   */
+  pdfAddWatermark(opts: WatermarkOptions): this {
+    const entry: WatermarkPayload = {};
+    if (opts.text !== undefined) entry.text = opts.text;
+    if (opts.image !== undefined) this.setBinary(`watermark#${this._loadCount++}`, entry, "image_data", opts.image);
+    if (opts.opacity !== undefined) entry.opacity = opts.opacity;
+    if (opts.rotation !== undefined) entry.rotation = opts.rotation;
+    if (opts.color !== undefined) entry.color = opts.color;
+    if (opts.fontSize !== undefined) entry.font_size = opts.fontSize;
+    if (opts.scale !== undefined) entry.scale = opts.scale;
+    if (opts.layer !== undefined) entry.layer = opts.layer;
+    if (opts.pages !== undefined) entry.pages = opts.pages;
+    if (opts.position !== undefined) entry.position = opts.position;
+    this._pdfWatermarks.push(entry);
+    return this;
+  }
+
+  /**
+   * Add a barcode to the PDF output. With `autoCheckDigit`, EAN-13, EAN-8 and
+   * UPC-A data given without its check digit gets one appended; with `gs1`,
+   * data from `gs1()` is encoded as a GS1 symbol.
+   */
   pdfBarcode(
     type: BarcodeType,
     data: string,
@@ -365,9 +1314,12 @@ export class RenderRequestBuilder {
       background?: string;
       drawBackground?: boolean;
       pages?: string;
+      errorCorrection?: ErrorCorrection;
+      autoCheckDigit?: boolean;
+      gs1?: boolean;
     },
   ): this {
-    const entry: BarcodePayload = { type, data };
+    const entry: BarcodePayload = { type, data: opts?.autoCheckDigit ? withCheckDigit(type, data) : data };
     if (opts?.x !== undefined) entry.x = opts.x;
     if (opts?.y !== undefined) entry.y = opts.y;
     if (opts?.width !== undefined) entry.width = opts.width;
@@ -377,6 +1329,8 @@ export class RenderRequestBuilder {
     if (opts?.background !== undefined) entry.background = opts.background;
     if (opts?.drawBackground !== undefined) entry.draw_background = opts.drawBackground;
     if (opts?.pages !== undefined) entry.pages = opts.pages;
+    if (opts?.errorCorrection !== undefined) entry.error_correction = opts.errorCorrection;
+    if (opts?.gs1) entry.gs1 = true;
     this._pdfBarcodes.push(entry);
     return this;
   }
@@ -387,9 +1341,9 @@ export class RenderRequestBuilder {
     return this;
   }
 
-  /** PDF digital signature: base64-encoded PKCS#12 certificate data. */
-  pdfSignCertificate(base64Data: string): this {
-    this._pdfSignCertificate = base64Data;
+  /** PDF digital signature: PKCS#12 certificate as base64, bytes, Blob or `{ path }`. */
+  pdfSignCertificate(certificate: BinaryInput): this {
+    this.setBinary("pdfSignCertificate", this, "_pdfSignCertificate", certificate);
     return this;
   }
 
@@ -435,12 +1389,22 @@ export class RenderRequestBuilder {
     return this;
   }
 
-  /** PDF encryption: permission flags. */
-  pdfPermissions(permissions: string): this {
+  /**
+   * PDF encryption: operations allowed without the owner password, e.g.
+   * `[PdfPermission.Print, PdfPermission.Copy]`. An empty list allows none.
+   * A comma-separated string is still accepted for compatibility.
+   */
+  pdfPermissions(permissions: PdfPermission[] | string): this {
     this._pdfPermissions = permissions;
     return this;
   }
 
+  /** PDF encryption: algorithm, "aes-128" or "aes-256". */
+  pdfEncryptionAlgorithm(algorithm: EncryptionAlgorithm): this {
+    this._pdfEncryptionAlgorithm = algorithm;
+    return this;
+  }
+
   /** PDF accessibility tagging level. */
   pdfAccessibility(level: AccessibilityLevel): this {
     this._pdfAccessibility = level;
@@ -461,10 +1425,18 @@ export class RenderRequestBuilder {
 
   /** Build the JSON payload. @internal */
   buildPayload(): RenderPayload {
+    this.assertResolved();
     const payload: RenderPayload = { format: this._format };
 
     if (this._html !== undefined) payload.html = this._html;
     if (this._url !== undefined) payload.url = this._url;
+    if (this._assets.size > 0) {
+      payload.assets = [...this._assets].map(([path, a]): AssetPayload => ({
+        path,
+        data: toBase64(a.data),
+        mime_type: a.mimeType ?? guessMimeType(path),
+      }));
+    }
     if (this._width !== undefined) payload.width = this._width;
     if (this._height !== undefined) payload.height = this._height;
     if (this._paper !== undefined) payload.paper = this._paper;
@@ -509,7 +1481,8 @@ export class RenderRequestBuilder {
     const hasEncryption =
       this._pdfUserPassword !== undefined ||
       this._pdfOwnerPassword !== undefined ||
-      this._pdfPermissions !== undefined;
+      this._pdfPermissions !== undefined ||
+      this._pdfEncryptionAlgorithm !== undefined;
 
     if (
       this._pdfTitle !== undefined ||
@@ -522,10 +1495,14 @@ export class RenderRequestBuilder {
       this._pdfStandard !== undefined ||
       this._pdfEmbeddedFiles.length > 0 ||
       this._pdfBarcodes.length > 0 ||
+      this._pdfWatermarks.length > 0 ||
+      this._pdfHeaders.length > 0 ||
+      this._pdfFooters.length > 0 ||
       this._pdfMode !== undefined ||
       this._pdfAccessibility !== undefined ||
       this._pdfLinearize !== undefined ||
       this._pdfLang !== undefined ||
+      this._pdfEInvoiceMetadata !== undefined ||
       hasWatermark ||
       hasSignature ||
       hasEncryption
@@ -540,8 +1517,9 @@ export class RenderRequestBuilder {
       if (this._pdfPageNumbers !== undefined) p.page_numbers = this._pdfPageNumbers;
       if (this._pdfStandard !== undefined) p.standard = this._pdfStandard;
       if (this._pdfEmbeddedFiles.length > 0) p.embedded_files = this._pdfEmbeddedFiles;
+      if (this._pdfEInvoiceMetadata !== undefined) p.einvoice = this._pdfEInvoiceMetadata;
       if (hasWatermark) {
-        const wm: NonNullable<NonNullable<RenderPayload["pdf"]>["watermark"]> = {};
+        const wm: WatermarkPayload = {};
         if (this._pdfWatermarkText !== undefined) wm.text = this._pdfWatermarkText;
         if (this._pdfWatermarkImage !== undefined) wm.image_data = this._pdfWatermarkImage;
         if (this._pdfWatermarkOpacity !== undefined) wm.opacity = this._pdfWatermarkOpacity;
@@ -553,7 +1531,10 @@ export class RenderRequestBuilder {
         if (this._pdfWatermarkPages !== undefined) wm.pages = this._pdfWatermarkPages;
         p.watermark = wm;
       }
+      if (this._pdfWatermarks.length > 0) p.watermarks = this._pdfWatermarks;
       if (this._pdfBarcodes.length > 0) p.barcodes = this._pdfBarcodes;
+      if (this._pdfHeaders.length > 0) p.headers = this._pdfHeaders;
+      if (this._pdfFooters.length > 0) p.footers = this._pdfFooters;
       if (this._pdfMode !== undefined) p.mode = this._pdfMode;
       if (hasSignature) {
         const sig: NonNullable<NonNullable<RenderPayload["pdf"]>["signature"]> = {};
@@ -569,7 +1550,12 @@ export class RenderRequestBuilder {
         const enc: NonNullable<NonNullable<RenderPayload["pdf"]>["encryption"]> = {};
         if (this._pdfUserPassword !== undefined) enc.user_password = this._pdfUserPassword;
         if (this._pdfOwnerPassword !== undefined) enc.owner_password = this._pdfOwnerPassword;
-        if (this._pdfPermissions !== undefined) enc.permissions = this._pdfPermissions;
+        if (this._pdfPermissions !== undefined) {
+          enc.permissions = Array.isArray(this._pdfPermissions)
+            ? [...new Set(this._pdfPermissions)].join(",")
+            : this._pdfPermissions;
+        }
+        if (this._pdfEncryptionAlgorithm !== undefined) enc.algorithm = this._pdfEncryptionAlgorithm;
         p.encryption = enc;
       }
       if (this._pdfAccessibility !== undefined) p.accessibility = this._pdfAccessibility;
@@ -581,70 +1567,94 @@ export class RenderRequestBuilder {
     return payload;
   }
 
-  /** Send the render request and return raw output bytes. */
-  async send(): Promise<Uint8Array> {
-    const payload = this.buildPayload();
+  /**
+   * Check the payload for problems the server would reject, without sending it.
+   * With `strict`, throws ForgeValidationError instead of returning issues.
+   */
+  validate(options?: { strict?: boolean }): ValidationIssue[] {
+    const issues = validatePayload(this.buildPayload());
+    if (options?.strict && issues.length > 0) throw new ForgeValidationError(issues);
+    return issues;
+  }
 
-    let resp: Response;
-    try {
-      resp = await this.client.doFetch("/render", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-    } catch (e) {
-      throw new ForgeConnectionError(e);
-    }
+  /** Send the render request and return raw output bytes. */
+  async send(options?: SendOptions): Promise<Uint8Array> {
+    return (await this.sendWithWarnings(options)).data;
+  }
 
-    if (!resp.ok) {
-      let message: string;
-      try {
-        const body = (await resp.json()) as ErrorResponse;
-        message = body.error;
-      } catch {
-        message = `HTTP ${resp.status}`;
+  /** Send the render request and return the full response including warnings. */
+  async sendWithWarnings(options?: SendOptions): Promise<RenderResponse> {
+    const payload = (await this.resolve()).buildPayload();
+    const cache = this._bypassCache || !isCacheable(payload) ? undefined : this.client.cache;
+    const key = cache ? await cacheKey(payload) : undefined;
+
+    if (cache && key) {
+      // Cache failures never fail a render; they count as a miss.
+      const hit = await cache.store.get(key).catch(() => undefined);
+      if (hit && (hit.expiresAt === undefined || hit.expiresAt > Date.now())) {
+        // Copies, so callers mutating a result can't corrupt the cached entry.
+        return { data: hit.data.slice(), warnings: structuredClone(hit.warnings) };
       }
-      throw new ForgeServerError(resp.status, message);
+      if (hit) await cache.store.delete(key).catch(() => undefined);
     }
 
-    const buf = await resp.arrayBuffer();
-    return new Uint8Array(buf);
-  }
-
-  /** Send the render request and return the full response including warnings. */
-  async sendWithWarnings(): Promise<RenderResponse> {
-    const payload = this.buildPayload();
+    const resp = await this.post("/render", options, payload);
+    const warnings = parseWarnings(resp.headers);
+    const result: RenderResponse = { data: await this.client.readOutput(resp, options?.signal), warnings };
 
-    let resp: Response;
-    try {
-      resp = await this.client.doFetch("/render", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-    } catch (e) {
-      throw new ForgeConnectionError(e);
+    if (cache && key) {
+      const expiresAt = cache.ttl !== undefined ? Date.now() + cache.ttl : undefined;
+      const entry = { data: result.data.slice(), warnings: structuredClone(warnings), expiresAt };
+      await cache.store.set(key, entry).catch(() => undefined);
     }
+    return result;
+  }
 
-    if (!resp.ok) {
-      let message: string;
-      try {
-        const body = (await resp.json()) as ErrorResponse;
-        message = body.error;
-      } catch {
-        message = `HTTP ${resp.status}`;
-      }
-      throw new ForgeServerError(resp.status, message);
-    }
+  /**
+   * Send the render request and return the output as a stream instead of
+   * buffering it. Server errors are thrown before the stream is returned;
+   * aborting `options.signal` errors the stream. Streams bypass the cache.
+   */
+  async sendStream(options?: SendOptions): Promise<RenderStream> {
+    const resp = await this.post("/render", options);
+    const length = resp.headers.get("Content-Length");
+    const result: RenderStream = {
+      body: this.client.trackStream(resp, options?.signal),
+      warnings: parseWarnings(resp.headers),
+    };
+    if (length !== null && /^\d+$/.test(length)) result.contentLength = Number(length);
+    return result;
+  }
 
-    // The Fetch API coalesces duplicate headers into a single comma-joined value.
-    // Split on ", " to recover individual warning strings.
-    const raw = resp.headers.get("X-Forge-Warning");
-    const warnings: string[] = raw
-      ? raw.split(",").map((w) => w.trim()).filter((w) => w.length > 0)
-      : [];
+  /**
+   * Submit the render as an asynchronous job and return a handle to it.
+   * Use this for renders that may outlast any sensible HTTP timeout.
+   */
+  async submit(options?: SendOptions): Promise<RenderJob> {
+    const resp = await this.post("/render/jobs", options);
+    const body = (await resp.json()) as JobStatusResponse;
+    return new RenderJob(this.client, body.id, this.client.endpointOf(resp));
+  }
 
-    const buf = await resp.arrayBuffer();
-    return { data: new Uint8Array(buf), warnings };
+  /**
+   * POST the payload and return the successful response. Pending inputs are
+   * read first; upload limits (and, with `strictValidation`, the whole
+   * payload) are checked before anything is sent.
+   */
+  private async post(
+    path: string,
+    options?: SendOptions,
+    payload?: RenderPayload,
+  ): Promise<Response> {
+    payload ??= (await this.resolve()).buildPayload();
+    const issues = this.client.strictValidation ? validatePayload(payload) : [];
+    issues.push(...uploadLimitIssues(payload, this.client.uploadLimits));
+    if (issues.length > 0) throw new ForgeValidationError(issues);
+    await this.client.assertSupported((info) => unsupportedFeatures(payload, info), options);
+    return this.client.doFetch(
+      path,
+      { method: "POST", headers: { "Content-Type": "application/json" } },
+      { ...options, payload, output: path === "/render" },
+    );
   }
 }
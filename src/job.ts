@@ -0,0 +1,106 @@
+import { ForgeAbortError, ForgeJobError } from "./error.js";
+import type { ForgeClient } from "./index.js";
+import { sleep } from "./retry.js";
+import type { JobStatus, JobStatusResponse, RenderResponse, SendOptions } from "./types.js";
+import { parseWarnings } from "./warnings.js";
+
+/** Options for `RenderJob.wait()`. */
+export interface JobWaitOptions {
+  /** Initial delay between status polls in milliseconds (default: 1000). */
+  pollInterval?: number;
+  /** Upper bound for the poll delay in milliseconds (default: 10000). */
+  maxPollInterval?: number;
+  /** Factor applied to the poll delay after each poll (default: 1.5). */
+  backoff?: number;
+  /**
+   * Stops waiting with ForgeAbortError. The job itself keeps running;
+   * use `cancel()` for that.
+   */
+  signal?: AbortSignal;
+  /** Called with each polled status. */
+  onStatus?: (status: JobStatus) => void;
+}
+
+/** @internal */
+export function jobStatusFromResponse(body: JobStatusResponse): JobStatus {
+  const status: JobStatus = { id: body.id, state: body.status };
+  if (body.progress !== undefined) status.progress = body.progress;
+  if (body.error !== undefined) status.error = body.error;
+  return status;
+}
+
+/**
+ * Handle to an asynchronous render job on the server.
+ *
+ * Obtain one from `RenderRequestBuilder.submit()`, or from `ForgeClient.job(id)`
+ * to resume a job whose id was saved earlier.
+ */
+export class RenderJob {
+  private readonly client: ForgeClient;
+  readonly id: string;
+  /**
+   * Base URL of the server holding the job, when the client has several
+   * endpoints; every request about the job goes there.
+   */
+  readonly endpoint?: string;
+
+  /** @internal */
+  constructor(client: ForgeClient, id: string, endpoint?: string) {
+    this.client = client;
+    this.id = id;
+    this.endpoint = endpoint;
+  }
+
+  private get path(): string {
+    return `/render/jobs/${encodeURIComponent(this.id)}`;
+  }
+
+  /** Fetch the current job status. */
+  async status(options?: SendOptions): Promise<JobStatus> {
+    const resp = await this.client.doFetch(this.path, { method: "GET" }, { ...options, endpoint: this.endpoint });
+    return jobStatusFromResponse((await resp.json()) as JobStatusResponse);
+  }
+
+  /**
+   * Poll until the job completes, backing off between polls.
+   * Throws ForgeJobError if the job fails or is cancelled.
+   */
+  async wait(options?: JobWaitOptions): Promise<JobStatus> {
+    const maxInterval = options?.maxPollInterval ?? 10_000;
+    const backoff = options?.backoff ?? 1.5;
+    let interval = options?.pollInterval ?? 1000;
+
+    const signal = options?.signal;
+
+    for (;;) {
+      const status = await this.status({ signal });
+      options?.onStatus?.(status);
+      if (status.state === "completed") return status;
+      if (status.state === "failed" || status.state === "cancelled") {
+        throw new ForgeJobError(this.id, status.state, status.error);
+      }
+      try {
+        await sleep(interval, signal);
+      } catch {
+        throw new ForgeAbortError(signal?.reason);
+      }
+      interval = Math.min(maxInterval, interval * backoff);
+    }
+  }
+
+  /** Ask the server to cancel the job. */
+  async cancel(options?: SendOptions): Promise<void> {
+    await this.client.doFetch(this.path, { method: "DELETE" }, { ...options, endpoint: this.endpoint });
+  }
+
+  /** Download the output of a completed job. */
+  async result(options?: SendOptions): Promise<RenderResponse> {
+    const resp = await this.client.doFetch(
+      `${this.path}/result`,
+      { method: "GET" },
+      { ...options, endpoint: this.endpoint, output: true },
+    );
+    const warnings = parseWarnings(resp.headers);
+    return { data: await this.client.readOutput(resp, options?.signal), warnings };
+  }
+}
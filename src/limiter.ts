@@ -0,0 +1,167 @@
+import { ForgeError } from "./error.js";
+import type { RequestPriority } from "./types.js";
+
+/** Token bucket for `ForgeClientOptions.rateLimit`. */
+export interface RateLimitOptions {
+  /** Sustained rate. */
+  requestsPerSecond: number;
+  /** Requests that may start back to back after an idle period (default: `max(1, requestsPerSecond)`). */
+  burst?: number;
+}
+
+/** Snapshot of the client's render queue, from `ForgeClient.queueStats()`. */
+export interface QueueStats {
+  /** Requests waiting for a slot or a rate-limit token. */
+  queued: number;
+  /** Queued requests per priority. */
+  queuedByPriority: Record<RequestPriority, number>;
+  /** Render requests holding a slot. */
+  inFlight: number;
+  /** Requests that have left the queue and been sent. */
+  dispatched: number;
+  /** Mean time spent queued by dispatched requests, in milliseconds. */
+  averageWait: number;
+  /** Longest time a dispatched request spent queued, in milliseconds. */
+  maxWait: number;
+}
+
+const RANK: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+
+interface Waiter {
+  priority: RequestPriority;
+  enqueuedAt: number;
+  grant: () => void;
+}
+
+/**
+ * @internal — concurrency limit plus token bucket with a priority queue.
+ * Requests of the same priority are served in arrival order.
+ */
+export class RequestLimiter {
+  private readonly maxConcurrent: number;
+  private readonly rate?: { perMs: number; burst: number };
+  private readonly waiters: Waiter[] = [];
+  private tokens: number;
+  private refilledAt = Date.now();
+  private timer?: ReturnType<typeof setTimeout>;
+  private inFlight = 0;
+  private dispatched = 0;
+  private totalWait = 0;
+  private maxWait = 0;
+
+  /** Throws ForgeError for limits that are not positive numbers. */
+  constructor(maxConcurrent = Infinity, rateLimit?: RateLimitOptions) {
+    if (!(maxConcurrent > 0)) throw new ForgeError(`maxConcurrent must be a positive number, got ${maxConcurrent}`);
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+    if (rateLimit) {
+      const { requestsPerSecond: rate, burst: size } = rateLimit;
+      if (!(rate > 0 && Number.isFinite(rate))) {
+        throw new ForgeError(`rateLimit.requestsPerSecond must be a positive number, got ${rate}`);
+      }
+      if (size !== undefined && !(size > 0 && Number.isFinite(size))) {
+        throw new ForgeError(`rateLimit.burst must be a positive number, got ${size}`);
+      }
+      const burst = Math.max(1, size ?? rate);
+      this.rate = { perMs: rate / 1000, burst };
+    }
+    this.tokens = this.rate?.burst ?? Infinity;
+  }
+
+  /**
+   * Wait for a slot and a token. Resolves with the milliseconds spent
+   * waiting and a function that frees the slot; rejects with "abort" or
+   * "timeout" once `signal` fires or `timeout` elapses first.
+   */
+  acquire(
+    priority: RequestPriority,
+    signal?: AbortSignal,
+    timeout?: number,
+  ): Promise<{ wait: number; release: () => void }> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject("abort");
+        return;
+      }
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const waiter: Waiter = {
+        priority,
+        enqueuedAt: Date.now(),
+        grant: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
+          const wait = Date.now() - waiter.enqueuedAt;
+          this.dispatched++;
+          this.totalWait += wait;
+          this.maxWait = Math.max(this.maxWait, wait);
+          let released = false;
+          resolve({
+            wait,
+            release: () => {
+              if (released) return;
+              released = true;
+              this.inFlight--;
+              this.pump();
+            },
+          });
+        },
+      };
+      const leave = (reason: string) => {
+        const index = this.waiters.indexOf(waiter);
+        if (index === -1) return;
+        this.waiters.splice(index, 1);
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        reject(reason);
+      };
+      const onAbort = () => leave("abort");
+
+      // Insert after every waiter of the same or a higher priority.
+      const rank = RANK[priority];
+      const at = this.waiters.findIndex((w) => RANK[w.priority] > rank);
+      this.waiters.splice(at === -1 ? this.waiters.length : at, 0, waiter);
+      this.pump();
+      if (this.waiters.includes(waiter)) {
+        signal?.addEventListener("abort", onAbort, { once: true });
+        if (timeout !== undefined) timer = setTimeout(() => leave("timeout"), timeout);
+      }
+    });
+  }
+
+  stats(): QueueStats {
+    const queuedByPriority: Record<RequestPriority, number> = { high: 0, normal: 0, low: 0 };
+    for (const w of this.waiters) queuedByPriority[w.priority]++;
+    return {
+      queued: this.waiters.length,
+      queuedByPriority,
+      inFlight: this.inFlight,
+      dispatched: this.dispatched,
+      averageWait: this.dispatched > 0 ? this.totalWait / this.dispatched : 0,
+      maxWait: this.maxWait,
+    };
+  }
+
+  /** Grant waiters in order while slots and tokens last; otherwise wake up when the next token is due. */
+  private pump(): void {
+    this.refill();
+    while (this.waiters.length > 0 && this.inFlight < this.maxConcurrent && this.tokens >= 1) {
+      const waiter = this.waiters.shift()!;
+      this.tokens--;
+      this.inFlight++;
+      waiter.grant();
+    }
+    if (this.waiters.length > 0 && this.inFlight < this.maxConcurrent && this.rate && !this.timer) {
+      const due = Math.ceil((1 - this.tokens) / this.rate.perMs);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.pump();
+      }, due);
+    }
+  }
+
+  private refill(): void {
+    if (!this.rate) return;
+    const now = Date.now();
+    this.tokens = Math.min(this.rate.burst, this.tokens + (now - this.refilledAt) * this.rate.perMs);
+    this.refilledAt = now;
+  }
+}
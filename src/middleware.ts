@@ -0,0 +1,138 @@
+import type { RenderPayload } from "./types.js";
+
+/** Request state visible to (and rewritable by) middleware. */
+export interface MiddlewareContext {
+  /** Request path, e.g. "/render". May be rewritten. */
+  path: string;
+  /** Base URL of the endpoint this attempt is sent to. */
+  endpoint: string;
+  /** HTTP method. */
+  method: string;
+  /** Request headers. May be modified. */
+  headers: Headers;
+  /** Render payload for `/render` and job submissions; serialized after the chain runs. */
+  payload?: RenderPayload;
+  /** Attempt number (1-based) when the client retries. */
+  attempt: number;
+  /** `Date.now()` when this attempt started. */
+  startedAt: number;
+  /** Milliseconds this attempt waited in the render queue; see `maxConcurrent`. */
+  queueWait: number;
+  /** Scratch space shared by the middlewares of one attempt. */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Request middleware. Call `next()` to continue down the chain (possibly
+ * more than once), or return a Response without calling it to short-circuit.
+ */
+export type Middleware = (ctx: MiddlewareContext, next: () => Promise<Response>) => Promise<Response>;
+
+/** @internal — run `middleware` in order around `terminal`. */
+export function runMiddleware(
+  middleware: readonly Middleware[],
+  ctx: MiddlewareContext,
+  terminal: (ctx: MiddlewareContext) => Promise<Response>,
+): Promise<Response> {
+  const dispatch = (i: number): Promise<Response> =>
+    i < middleware.length ? middleware[i](ctx, () => dispatch(i + 1)) : terminal(ctx);
+  return dispatch(0);
+}
+
+/** A credential, or a function returning one (e.g. to refresh short-lived tokens). */
+export type CredentialSource = string | (() => string | Promise<string>);
+
+async function resolveCredential(source: CredentialSource): Promise<string> {
+  return typeof source === "function" ? source() : source;
+}
+
+/** Middleware that sends `Authorization: Bearer <token>`. */
+export function bearerAuth(token: CredentialSource): Middleware {
+  return async (ctx, next) => {
+    ctx.headers.set("Authorization", `Bearer ${await resolveCredential(token)}`);
+    return next();
+  };
+}
+
+/** Middleware that sends an API key header (default header: `X-API-Key`). */
+export function apiKeyAuth(key: CredentialSource, options?: { header?: string }): Middleware {
+  const header = options?.header ?? "X-API-Key";
+  return async (ctx, next) => {
+    ctx.headers.set(header, await resolveCredential(key));
+    return next();
+  };
+}
+
+/** A single log record produced by the logging middleware. */
+export interface RequestLogEntry {
+  method: string;
+  path: string;
+  attempt: number;
+  /** Response status; absent when the request failed without a response. */
+  status?: number;
+  durationMs: number;
+  /** Time spent in the render queue, when the request had to wait. */
+  queueWaitMs?: number;
+  /** Redacted payload, when `includePayload` is set. */
+  payload?: unknown;
+  error?: unknown;
+}
+
+/** Options for the logging middleware. */
+export interface LoggingOptions {
+  /** Log sink (default: `console.info`). */
+  log?: (message: string, entry: RequestLogEntry) => void;
+  /** Include the redacted payload in each entry (default: false). */
+  includePayload?: boolean;
+  /** Redact a payload before it is logged (default: `redactPayload`). */
+  redact?: (payload: RenderPayload) => unknown;
+}
+
+const REDACTED = "[redacted]";
+
+/**
+ * Replace secrets and bulky data in a payload: HTML, signature certificate
+ * and password, encryption passwords, and base64 attachment/asset/image data.
+ */
+export function redactPayload(payload: RenderPayload): RenderPayload {
+  const copy = structuredClone(payload);
+  if (copy.html !== undefined) copy.html = `[${copy.html.length} chars]`;
+  copy.assets?.forEach((a) => (a.data = REDACTED));
+  const pdf = copy.pdf;
+  if (pdf) {
+    pdf.embedded_files?.forEach((f) => (f.data = REDACTED));
+    if (pdf.watermark?.image_data !== undefined) pdf.watermark.image_data = REDACTED;
+    pdf.watermarks?.forEach((w) => {
+      if (w.image_data !== undefined) w.image_data = REDACTED;
+    });
+    if (pdf.signature?.certificate_data !== undefined) pdf.signature.certificate_data = REDACTED;
+    if (pdf.signature?.password !== undefined) pdf.signature.password = REDACTED;
+    if (pdf.encryption?.user_password !== undefined) pdf.encryption.user_password = REDACTED;
+    if (pdf.encryption?.owner_password !== undefined) pdf.encryption.owner_password = REDACTED;
+  }
+  return copy;
+}
+
+/** Middleware that logs each request attempt with status and duration. */
+export function logging(options?: LoggingOptions): Middleware {
+  const log = options?.log ?? ((message: string, entry: RequestLogEntry) => console.info(message, entry));
+  const redact = options?.redact ?? redactPayload;
+  return async (ctx, next) => {
+    const entry: RequestLogEntry = { method: ctx.method, path: ctx.path, attempt: ctx.attempt, durationMs: 0 };
+    if (ctx.queueWait > 0) entry.queueWaitMs = ctx.queueWait;
+    if (options?.includePayload && ctx.payload) entry.payload = redact(ctx.payload);
+    const start = Date.now();
+    try {
+      const resp = await next();
+      entry.status = resp.status;
+      entry.durationMs = Date.now() - start;
+      log(`forge ${ctx.method} ${ctx.path} ${resp.status} ${entry.durationMs}ms`, entry);
+      return resp;
+    } catch (e) {
+      entry.error = e;
+      entry.durationMs = Date.now() - start;
+      log(`forge ${ctx.method} ${ctx.path} failed ${entry.durationMs}ms`, entry);
+      throw e;
+    }
+  };
+}
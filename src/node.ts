@@ -0,0 +1,80 @@
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join, relative, sep } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import type { CacheEntry, CacheStore } from "./cache.js";
+import type { ForgeWarning, HtmlAsset, RenderStream } from "./types.js";
+
+/**
+ * Pipe a streamed render into a Node.js writable (e.g. `fs.createWriteStream`).
+ * Resolves once all bytes are flushed; the writable is ended afterwards.
+ */
+export async function pipeToWritable(
+  stream: RenderStream | ReadableStream<Uint8Array>,
+  writable: NodeJS.WritableStream,
+): Promise<void> {
+  const body = stream instanceof ReadableStream ? stream : stream.body;
+  await pipeline(Readable.fromWeb(body as NodeReadableStream<Uint8Array>), writable);
+}
+
+/**
+ * Read every file under `dir` into an asset map for `RenderRequestBuilder.assets()`,
+ * keyed by path relative to `dir` with forward slashes.
+ */
+export async function loadAssetDirectory(dir: string): Promise<Record<string, HtmlAsset>> {
+  const assets: Record<string, HtmlAsset> = {};
+  const walk = async (current: string): Promise<void> => {
+    for (const entry of await readdir(current, { withFileTypes: true })) {
+      const full = join(current, entry.name);
+      if (entry.isDirectory()) {
+        await walk(full);
+      } else if (entry.isFile()) {
+        const key = relative(dir, full).split(sep).join("/");
+        assets[key] = { data: new Uint8Array(await readFile(full)) };
+      }
+    }
+  };
+  await walk(dir);
+  return assets;
+}
+
+/**
+ * Render cache store backed by a directory. Each entry is a `<key>.bin`
+ * output file plus a `<key>.json` metadata file.
+ */
+export class FileCacheStore implements CacheStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const meta = JSON.parse(await readFile(join(this.dir, `${key}.json`), "utf8")) as {
+        warnings: ForgeWarning[];
+        expiresAt?: number;
+      };
+      const data = new Uint8Array(await readFile(join(this.dir, `${key}.bin`)));
+      return { data, warnings: meta.warnings, expiresAt: meta.expiresAt };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    // Write to temporary names first so readers never see partial files.
+    const tmp = join(this.dir, `${key}.${process.pid}.${Date.now()}.tmp`);
+    await writeFile(`${tmp}.bin`, entry.data);
+    await writeFile(`${tmp}.json`, JSON.stringify({ warnings: entry.warnings, expiresAt: entry.expiresAt }));
+    await rename(`${tmp}.bin`, join(this.dir, `${key}.bin`));
+    await rename(`${tmp}.json`, join(this.dir, `${key}.json`));
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(join(this.dir, `${key}.json`), { force: true });
+    await rm(join(this.dir, `${key}.bin`), { force: true });
+  }
+}
@@ -0,0 +1,125 @@
+import type { RequestEventBase } from "./events.js";
+import type { ForgeClient } from "./index.js";
+
+/** The parts of an OpenTelemetry `SpanContext` the adapter reads. */
+export interface OtelSpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  traceState?: { serialize(): string };
+}
+
+/** The parts of an OpenTelemetry `Span` the adapter uses. */
+export interface OtelSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  spanContext(): OtelSpanContext;
+  end(): void;
+}
+
+/**
+ * The parts of an OpenTelemetry `Tracer` the adapter uses; pass
+ * `trace.getTracer("forge")` from `@opentelemetry/api`.
+ */
+export interface OtelTracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Record<string, string | number | boolean> },
+  ): OtelSpan;
+}
+
+/** Options for `instrumentOpenTelemetry()`. */
+export interface OpenTelemetryOptions {
+  /** Span name (default: "forge POST /render"). */
+  spanName?: (event: RequestEventBase) => string;
+  /** Send a W3C `traceparent` (and `tracestate`) header to the server (default: true). */
+  propagate?: boolean;
+}
+
+// Numeric values of the OpenTelemetry API enums.
+const SPAN_KIND_CLIENT = 2;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+/** Span attributes of the request fields that are set. */
+function requestAttributes(event: RequestEventBase): Record<string, string | number | boolean> {
+  const url = new URL(`${event.endpoint}${event.path}`);
+  const attributes: Record<string, string | number | boolean> = {
+    "http.request.method": event.method,
+    "url.full": url.href,
+    "server.address": url.hostname,
+    "server.port": url.port !== "" ? Number(url.port) : url.protocol === "https:" ? 443 : 80,
+    "forge.request_id": event.requestId,
+  };
+  if (event.attempt > 1) attributes["http.request.resend_count"] = event.attempt - 1;
+  if (event.format !== undefined) attributes["forge.format"] = event.format;
+  if (event.paper !== undefined) attributes["forge.paper"] = event.paper;
+  if (event.orientation !== undefined) attributes["forge.orientation"] = event.orientation;
+  if (event.width !== undefined) attributes["forge.width"] = event.width;
+  if (event.height !== undefined) attributes["forge.height"] = event.height;
+  if (event.payloadSize !== undefined) attributes["http.request.body.size"] = event.payloadSize;
+  return attributes;
+}
+
+/**
+ * Trace every request of `client` with OpenTelemetry, without depending on
+ * `@opentelemetry/api`: one client span per attempt, ended when the output
+ * is read or the attempt fails, with the status, sizes and warning count as
+ * attributes. Spans become children of the active context, and the
+ * `traceparent` header lets the server join the trace.
+ * Returns a function that stops tracing.
+ */
+export function instrumentOpenTelemetry(
+  client: ForgeClient,
+  tracer: OtelTracer,
+  options?: OpenTelemetryOptions,
+): () => void {
+  const spans = new Map<number, OtelSpan>();
+  const name = options?.spanName ?? ((e: RequestEventBase) => `forge ${e.method} ${e.path}`);
+  const propagate = options?.propagate ?? true;
+
+  const finish = (requestId: number, status: { code: number; message?: string }) => {
+    const span = spans.get(requestId);
+    if (!span) return;
+    spans.delete(requestId);
+    span.setStatus(status);
+    span.end();
+  };
+
+  const off = [
+    client.on("request", (e) => {
+      const span = tracer.startSpan(name(e), { kind: SPAN_KIND_CLIENT, attributes: requestAttributes(e) });
+      spans.set(e.requestId, span);
+      if (!propagate) return;
+      const { traceId, spanId, traceFlags, traceState } = span.spanContext();
+      e.headers.set("traceparent", `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, "0")}`);
+      const state = traceState?.serialize();
+      if (state) e.headers.set("tracestate", state);
+    }),
+    client.on("response", (e) => {
+      const span = spans.get(e.requestId);
+      span?.setAttribute("http.response.status_code", e.status);
+      if (e.contentLength !== undefined) span?.setAttribute("http.response.body.size", e.contentLength);
+    }),
+    client.on("warnings", (e) => {
+      spans.get(e.requestId)?.setAttribute("forge.warnings", e.warnings.length);
+    }),
+    client.on("complete", (e) => {
+      if (e.responseSize !== undefined) spans.get(e.requestId)?.setAttribute("http.response.body.size", e.responseSize);
+      finish(e.requestId, { code: STATUS_OK });
+    }),
+    client.on("error", (e) => {
+      const span = spans.get(e.requestId);
+      span?.recordException(e.error);
+      span?.setAttribute("error.type", e.error.name);
+      finish(e.requestId, { code: STATUS_ERROR, message: e.error.message });
+    }),
+  ];
+
+  return () => {
+    off.forEach((remove) => remove());
+    for (const span of spans.values()) span.end();
+    spans.clear();
+  };
+}
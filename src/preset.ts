@@ -0,0 +1,110 @@
+import { ForgeValidationError } from "./error.js";
+import type { RenderPreset, ValidationIssue } from "./types.js";
+
+/** @internal — preset keys with a single value; later layers replace earlier ones. */
+export const PRESET_SCALAR_KEYS = [
+  "format",
+  "width",
+  "height",
+  "paper",
+  "orientation",
+  "margins",
+  "flow",
+  "density",
+  "background",
+  "timeout",
+  "colors",
+  "palette",
+  "dither",
+  "pdfTitle",
+  "pdfAuthor",
+  "pdfSubject",
+  "pdfKeywords",
+  "pdfCreator",
+  "pdfBookmarks",
+  "pdfPageNumbers",
+  "pdfWatermarkText",
+  "pdfWatermarkImage",
+  "pdfWatermarkOpacity",
+  "pdfWatermarkRotation",
+  "pdfWatermarkColor",
+  "pdfWatermarkFontSize",
+  "pdfWatermarkScale",
+  "pdfWatermarkLayer",
+  "pdfWatermarkPages",
+  "pdfStandard",
+  "pdfMode",
+  "pdfSignCertificate",
+  "pdfSignPassword",
+  "pdfSignName",
+  "pdfSignReason",
+  "pdfSignLocation",
+  "pdfSignTimestampUrl",
+  "pdfUserPassword",
+  "pdfOwnerPassword",
+  "pdfPermissions",
+  "pdfEncryptionAlgorithm",
+  "pdfAccessibility",
+  "pdfLinearize",
+  "pdfLang",
+  "pdfEInvoiceMetadata",
+] as const satisfies readonly (keyof RenderPreset)[];
+
+/** @internal — preset keys holding lists; later layers append to earlier ones. */
+export const PRESET_LIST_KEYS = [
+  "pdfBarcodes",
+  "pdfEmbeddedFiles",
+  "pdfWatermarks",
+  "pdfHeaders",
+  "pdfFooters",
+] as const satisfies readonly (keyof RenderPreset)[];
+
+/** @internal */
+export type PresetScalarKey = (typeof PRESET_SCALAR_KEYS)[number];
+
+const KNOWN_KEYS = new Set<string>([...PRESET_SCALAR_KEYS, ...PRESET_LIST_KEYS]);
+
+/**
+ * Layer presets left to right. Single values from later presets replace
+ * earlier ones (a custom `palette` array counts as a single value); the
+ * `pdfBarcodes`, `pdfEmbeddedFiles`, `pdfWatermarks`, `pdfHeaders` and
+ * `pdfFooters` lists are concatenated in order.
+ */
+export function mergePresets(...presets: RenderPreset[]): RenderPreset {
+  const merged: RenderPreset = {};
+  const target = merged as Record<string, unknown>;
+  for (const preset of presets) {
+    for (const key of PRESET_SCALAR_KEYS) {
+      const value = preset[key];
+      if (value !== undefined) target[key] = Array.isArray(value) ? [...value] : typeof value === "object" ? { ...value } : value;
+    }
+    for (const key of PRESET_LIST_KEYS) {
+      const list = preset[key];
+      if (list?.length) target[key] = [...((target[key] as unknown[]) ?? []), ...list.map((e) => ({ ...e }))];
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parse a preset from JSON text or an already-parsed value.
+ * Throws ForgeValidationError for non-object input or unknown keys.
+ */
+export function parsePreset(json: string | unknown): RenderPreset {
+  const value: unknown = typeof json === "string" ? JSON.parse(json) : json;
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    throw new ForgeValidationError([{ path: "", rule: "format", message: "preset must be a JSON object" }]);
+  }
+  const issues: ValidationIssue[] = [];
+  for (const key of Object.keys(value)) {
+    if (!KNOWN_KEYS.has(key)) issues.push({ path: key, rule: "unknown", message: `unknown preset option "${key}"` });
+  }
+  for (const key of PRESET_LIST_KEYS) {
+    const list = (value as Record<string, unknown>)[key];
+    if (list !== undefined && !Array.isArray(list)) {
+      issues.push({ path: key, rule: "format", message: "must be an array" });
+    }
+  }
+  if (issues.length > 0) throw new ForgeValidationError(issues);
+  return mergePresets(value as RenderPreset);
+}
@@ -0,0 +1,106 @@
+import type { ForgeError } from "./error.js";
+
+/** Failure kinds that can be retried when no HTTP response was received. */
+export type RetryErrorKind = "connection" | "timeout";
+
+/** Jitter strategy applied to the computed backoff delay. */
+export type RetryJitter = "none" | "full" | "equal";
+
+/** Information passed to the `onRetry` hook before each retry. */
+export interface RetryEvent {
+  /** Request path (e.g. "/render"). */
+  path: string;
+  /** The attempt that just failed (1-based). */
+  attempt: number;
+  /** Delay in milliseconds before the next attempt. */
+  delay: number;
+  /** The error the failed attempt produced. */
+  error: ForgeError;
+}
+
+/** Retry policy for idempotent requests. */
+export interface RetryOptions {
+  /** Total number of attempts, including the first (default: 3). */
+  maxAttempts?: number;
+  /** Base delay in milliseconds for exponential backoff (default: 250). */
+  baseDelay?: number;
+  /** Upper bound for a single delay in milliseconds (default: 10000). */
+  maxDelay?: number;
+  /** Jitter strategy (default: "full"). */
+  jitter?: RetryJitter;
+  /** HTTP status codes that trigger a retry (default: 429, 502, 503, 504). */
+  retryOnStatus?: number[];
+  /** Failure kinds without a response that trigger a retry (default: ["connection"]). */
+  retryOnErrors?: RetryErrorKind[];
+  /** Honour the `Retry-After` response header, capped at `maxDelay` (default: true). */
+  respectRetryAfter?: boolean;
+  /** Called before each retry, e.g. for logging. */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/** @internal */
+export type ResolvedRetryOptions = Required<Omit<RetryOptions, "onRetry">> &
+  Pick<RetryOptions, "onRetry">;
+
+/** @internal — apply defaults. Without options, requests are attempted once. */
+export function resolveRetryOptions(options?: RetryOptions): ResolvedRetryOptions {
+  return {
+    maxAttempts: options ? Math.max(1, options.maxAttempts ?? 3) : 1,
+    baseDelay: options?.baseDelay ?? 250,
+    maxDelay: options?.maxDelay ?? 10_000,
+    jitter: options?.jitter ?? "full",
+    retryOnStatus: options?.retryOnStatus ?? [429, 502, 503, 504],
+    retryOnErrors: options?.retryOnErrors ?? ["connection"],
+    respectRetryAfter: options?.respectRetryAfter ?? true,
+    onRetry: options?.onRetry,
+  };
+}
+
+/** @internal — backoff delay in milliseconds after the given failed attempt (1-based). */
+export function backoffDelay(
+  options: ResolvedRetryOptions,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const exp = Math.min(options.maxDelay, options.baseDelay * 2 ** (attempt - 1));
+  switch (options.jitter) {
+    case "none":
+      return exp;
+    case "equal":
+      return exp / 2 + random() * (exp / 2);
+    case "full":
+      return random() * exp;
+  }
+}
+
+/**
+ * @internal — parse a `Retry-After` header (delta-seconds or HTTP-date)
+ * into milliseconds. Returns undefined when absent or malformed.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (value === null) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/** @internal — resolve after `ms`, or reject with the signal's reason once aborted. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
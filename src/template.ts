@@ -0,0 +1,218 @@
+import { ForgeTemplateError } from "./error.js";
+import type { RenderRequestBuilder } from "./index.js";
+import type { RenderPreset } from "./types.js";
+
+/**
+ * A template engine that turns source and data into HTML. Implement this to
+ * plug in Handlebars, EJS or similar:
+ *
+ *   const handlebars: TemplateEngine = {
+ *     render: (source, data, partials) => Handlebars.compile(source)(data, { partials }),
+ *   };
+ */
+export interface TemplateEngine {
+  render(source: string, data: unknown, partials: Record<string, string>): string;
+}
+
+/** A template with optional partials and default builder settings. */
+export interface TemplateDefinition {
+  source: string;
+  /** Engine for this template (default: the client's engine). */
+  engine?: TemplateEngine;
+  /** Partials available to this template, in addition to the client's. */
+  partials?: Record<string, string>;
+  /** Default settings (paper, margins, PDF metadata, ...) as a preset or a function applied to each request. */
+  defaults?: RenderPreset | ((builder: RenderRequestBuilder) => void);
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; path: string; raw: boolean }
+  | { type: "partial"; name: string }
+  | { type: "block"; kind: BlockKind; path: string; body: TemplateNode[]; inverse: TemplateNode[] };
+
+type BlockKind = "if" | "unless" | "each";
+
+/** A data scope; `vars` holds @index, @first, @last and @key inside loops. */
+interface Scope {
+  value: unknown;
+  vars: Record<string, unknown>;
+}
+
+const BLOCK_KINDS = new Set<string>(["if", "unless", "each"]);
+const TAG = /\{\{\{\s*([\s\S]*?)\s*\}\}\}|\{\{\s*([\s\S]*?)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 32;
+
+function lineOf(source: string, index: number): number {
+  return source.slice(0, index).split("\n").length;
+}
+
+/** Parse template source into a node tree. */
+function parse(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { node: Extract<TemplateNode, { type: "block" }>; inElse: boolean; line: number }[] = [];
+  let out = root;
+  let last = 0;
+
+  for (const m of source.matchAll(TAG)) {
+    const index = m.index ?? 0;
+    if (index > last) out.push({ type: "text", value: source.slice(last, index) });
+    last = index + m[0].length;
+
+    if (m[1] !== undefined) {
+      out.push({ type: "var", path: m[1], raw: true });
+      continue;
+    }
+    const tag = m[2];
+    if (tag.startsWith("!")) continue;
+
+    if (tag.startsWith("#")) {
+      const [kind, ...rest] = tag.slice(1).trim().split(/\s+/);
+      if (!BLOCK_KINDS.has(kind)) {
+        throw new ForgeTemplateError(`unknown block "#${kind}" on line ${lineOf(source, index)}`);
+      }
+      const node = { type: "block" as const, kind: kind as BlockKind, path: rest.join(" "), body: [], inverse: [] };
+      out.push(node);
+      stack.push({ node, inElse: false, line: lineOf(source, index) });
+      out = node.body;
+    } else if (tag === "else") {
+      const top = stack.at(-1);
+      if (!top || top.inElse) {
+        throw new ForgeTemplateError(`unexpected "else" on line ${lineOf(source, index)}`);
+      }
+      top.inElse = true;
+      out = top.node.inverse;
+    } else if (tag.startsWith("/")) {
+      const name = tag.slice(1).trim();
+      const top = stack.pop();
+      if (!top || top.node.kind !== name) {
+        throw new ForgeTemplateError(`unexpected "/${name}" on line ${lineOf(source, index)}`);
+      }
+      const parent = stack.at(-1);
+      out = parent ? (parent.inElse ? parent.node.inverse : parent.node.body) : root;
+    } else if (tag.startsWith(">")) {
+      out.push({ type: "partial", name: tag.slice(1).trim() });
+    } else {
+      out.push({ type: "var", path: tag, raw: false });
+    }
+  }
+
+  const open = stack.at(-1);
+  if (open) throw new ForgeTemplateError(`unclosed "#${open.node.kind}" from line ${open.line}`);
+  if (last < source.length) out.push({ type: "text", value: source.slice(last) });
+  return root;
+}
+
+/** @internal */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Own properties only, so `{{constructor}}` and other prototype members don't resolve. */
+function get(value: unknown, key: string): unknown {
+  return value !== null && typeof value === "object" && Object.hasOwn(value, key)
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/** Resolve a dotted path against the scope chain, innermost first. "../" steps out one scope. */
+function lookup(path: string, scopes: Scope[]): unknown {
+  while (path.startsWith("../") && scopes.length > 1) {
+    path = path.slice(3);
+    scopes = scopes.slice(0, -1);
+  }
+  const inner = scopes[scopes.length - 1];
+  if (path === "this" || path === ".") return inner.value;
+  if (path.startsWith("@")) {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      if (Object.hasOwn(scopes[i].vars, path.slice(1))) return scopes[i].vars[path.slice(1)];
+    }
+    return undefined;
+  }
+
+  const segments = path.split(".");
+  let value: unknown;
+  if (segments[0] === "this") {
+    segments.shift();
+    value = inner.value;
+  } else {
+    const owner = [...scopes].reverse().find((s) => get(s.value, segments[0]) !== undefined);
+    value = owner?.value;
+  }
+  for (const seg of segments) value = get(value, seg);
+  return value;
+}
+
+function truthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scopes: Scope[],
+  partials: Record<string, string>,
+  depth: number,
+): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        out += node.value;
+        break;
+      case "var": {
+        const value = lookup(node.path, scopes);
+        const text = value === undefined || value === null ? "" : String(value);
+        out += node.raw ? text : escapeHtml(text);
+        break;
+      }
+      case "partial": {
+        const source = partials[node.name];
+        if (source === undefined) throw new ForgeTemplateError(`unknown partial "${node.name}"`);
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new ForgeTemplateError(`partials nested deeper than ${MAX_PARTIAL_DEPTH} levels`);
+        }
+        out += renderNodes(parse(source), scopes, partials, depth + 1);
+        break;
+      }
+      case "block": {
+        const value = lookup(node.path, scopes);
+        if (node.kind === "each") {
+          const entries: [string | number, unknown][] = Array.isArray(value)
+            ? value.map((v, i) => [i, v])
+            : value !== null && typeof value === "object"
+              ? Object.entries(value)
+              : [];
+          if (entries.length === 0) {
+            out += renderNodes(node.inverse, scopes, partials, depth);
+          }
+          entries.forEach(([key, item], i) => {
+            const vars = { index: i, key, first: i === 0, last: i === entries.length - 1 };
+            out += renderNodes(node.body, [...scopes, { value: item, vars }], partials, depth);
+          });
+        } else {
+          const show = node.kind === "if" ? truthy(value) : !truthy(value);
+          out += renderNodes(show ? node.body : node.inverse, scopes, partials, depth);
+        }
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Built-in, dependency-free engine with a Handlebars-like syntax:
+ * `{{path}}` (HTML-escaped), `{{{path}}}` (raw), `{{#if}}`/`{{#unless}}`
+ * with `{{else}}`, `{{#each}}` with `this`/`@index`/`@key`/`@first`/`@last`/`../`,
+ * `{{> partial}}` and `{{! comments }}`.
+ */
+export const builtinTemplateEngine: TemplateEngine = {
+  render(source, data, partials) {
+    return renderNodes(parse(source), [{ value: data, vars: {} }], partials, 0);
+  },
+};
@@ -1,6 +1,74 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { ForgeClient, RenderRequestBuilder, BarcodeType, BarcodeAnchor } from "./index.js";
+import { createServer } from "node:http";
+import { getEventListeners } from "node:events";
+import { Writable } from "node:stream";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  ForgeClient,
+  RenderRequestBuilder,
+  BarcodeType,
+  BarcodeAnchor,
+  ForgeServerError,
+  ForgeValidationError,
+  PdfStandard,
+  PdfPermission,
+  EmbedRelationship,
+  ForgeJobError,
+  findAssetReferences,
+  missingAssets,
+  builtinTemplateEngine,
+  ForgeTemplateError,
+  mergePresets,
+  gs1,
+  gs1CheckDigit,
+  validateBarcode,
+  detectMimeType,
+  parsePreset,
+  bearerAuth,
+  apiKeyAuth,
+  logging,
+  ForgeAbortError,
+  ForgeTimeoutError,
+  ForgeConnectionError,
+  MemoryCacheStore,
+  ForgeCapabilityError,
+  API_VERSION,
+  instrumentOpenTelemetry,
+} from "./index.js";
+import type { Middleware, RequestLogEntry } from "./index.js";
+import type { CompleteEvent, OtelTracer, RequestStartEvent, WarningsEvent } from "./index.js";
+import type { EInvoiceProfile, JobState } from "./index.js";
+import type { RenderPayload } from "./types.js";
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { FileCacheStore, loadAssetDirectory, pipeToWritable } from "./node.js";
+import { cacheKey } from "./cache.js";
+import { fromBase64, toBase64 } from "./encoding.js";
+import { ExitCode, expandGlob, main } from "./cli.js";
+import type { CliIo } from "./cli.js";
+import { readFile } from "node:fs/promises";
+import { MOCK_PDF, MOCK_PNG, MOCK_SVG, MOCK_VERSION, MockForgeServer, withMockServer } from "./testing.js";
+import { parseWarnings } from "./warnings.js";
+import { backoffDelay, parseRetryAfter, resolveRetryOptions } from "./retry.js";
+
+/** Run `fn` against a throwaway HTTP server on a random local port. */
+async function withServer(
+  handler: (req: IncomingMessage, res: ServerResponse) => void,
+  fn: (baseUrl: string) => Promise<void>,
+): Promise<void> {
+  const server = createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await fn(`http://127.0.0.1:${port}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
 
 describe("ForgeClient", () => {
   it("strips trailing slash from base URL", () => {
@@ -195,4 +263,1948 @@ describe("RenderRequestBuilder", () => {
     assert.equal(payload.pdf?.watermark?.text, "DRAFT");
     assert.equal(payload.pdf?.watermark?.pages, "1,3-5");
   });
+
+  it("stacks watermarks alongside the legacy single watermark", () => {
+    const payload = client
+      .renderHtml("<h1>Contract</h1>")
+      .pdfWatermarkText("LEGACY")
+      .pdfAddWatermark({ text: "CONFIDENTIAL", rotation: -45, opacity: 0.1 })
+      .pdfAddWatermark({ text: "COPY", pages: "2-999", position: "top-right", fontSize: 18, color: "#cc0000" })
+      .pdfAddWatermark({ image: "iVBORw0KGgo=", layer: "under", scale: 0.3, position: "bottom-left" })
+      .buildPayload();
+
+    assert.deepEqual(payload.pdf?.watermark, { text: "LEGACY" });
+    assert.deepEqual(payload.pdf?.watermarks, [
+      { text: "CONFIDENTIAL", opacity: 0.1, rotation: -45 },
+      { text: "COPY", color: "#cc0000", font_size: 18, pages: "2-999", position: "top-right" },
+      { image_data: "iVBORw0KGgo=", scale: 0.3, layer: "under", position: "bottom-left" },
+    ]);
+    assert.deepEqual(
+      client.renderHtml("x").apply(mergePresets({ pdfWatermarks: payload.pdf?.watermarks })).buildPayload().pdf?.watermarks,
+      payload.pdf?.watermarks,
+    );
+    assert.deepEqual(
+      client.renderHtml("x").pdfAddWatermark({ opacity: 2, pages: "x" }).validate().map((i) => `${i.path}:${i.rule}`),
+      ["pdf.watermarks[0]:required", "pdf.watermarks[0].opacity:range", "pdf.watermarks[0].pages:format"],
+    );
+  });
+
+  it("serializes permission flags and the encryption algorithm", () => {
+    const payload = client
+      .renderHtml("<p>secret</p>")
+      .pdfOwnerPassword("owner")
+      .pdfPermissions([PdfPermission.Print, PdfPermission.ExtractAccessibility, PdfPermission.Print])
+      .pdfEncryptionAlgorithm("aes-256")
+      .buildPayload();
+    assert.deepEqual(payload.pdf?.encryption, {
+      owner_password: "owner",
+      permissions: "print,extract-accessibility",
+      algorithm: "aes-256",
+    });
+    assert.equal(client.renderHtml("x").pdfPermissions([]).buildPayload().pdf?.encryption?.permissions, "");
+    assert.equal(client.renderHtml("x").pdfPermissions("print,copy").buildPayload().pdf?.encryption?.permissions, "print,copy");
+  });
+
+  it("builds pdf headers and footers with variants", () => {
+    const builder = client
+      .renderHtml("<h1>Contract</h1>")
+      .pdfHeader('<img src="logo.png"> {title}', { height: 20 })
+      .pdfHeader("<b>Confidential</b>", { variant: "first", height: 30 })
+      .pdfFooter("Seite {page} von {pages}", { variant: "odd" })
+      .pdfFooter("{date}", { pages: "2-4", variant: "even" });
+    const payload = builder.buildPayload();
+
+    assert.deepEqual(payload.pdf?.headers, [
+      { html: '<img src="logo.png"> {title}', height: 20 },
+      { html: "<b>Confidential</b>", height: 30, variant: "first" },
+    ]);
+    assert.deepEqual(payload.pdf?.footers, [
+      { html: "Seite {page} von {pages}", variant: "odd" },
+      { html: "{date}", pages: "2-4", variant: "even" },
+    ]);
+    assert.deepEqual(builder.clone().buildPayload().pdf?.footers, payload.pdf?.footers);
+  });
+});
+
+describe("retry", () => {
+  it("computes exponential backoff capped at maxDelay", () => {
+    const opts = resolveRetryOptions({ baseDelay: 100, maxDelay: 500, jitter: "none" });
+    assert.equal(backoffDelay(opts, 1), 100);
+    assert.equal(backoffDelay(opts, 2), 200);
+    assert.equal(backoffDelay(opts, 3), 400);
+    assert.equal(backoffDelay(opts, 4), 500);
+    const full = resolveRetryOptions({ baseDelay: 100, jitter: "full" });
+    assert.equal(backoffDelay(full, 2, () => 0.5), 100);
+  });
+
+  it("parses Retry-After seconds and dates", () => {
+    assert.equal(parseRetryAfter("3"), 3000);
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter("soon"), undefined);
+    const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+    assert.equal(parseRetryAfter("Wed, 21 Oct 2026 07:28:02 GMT", now), 2000);
+  });
+
+  it("retries transient server errors on /render", async () => {
+    const events: number[] = [];
+    await withMockServer(async (server) => {
+      server.enqueue({ status: 503, error: "restarting" }, { status: 503, error: "restarting" });
+      const client = new ForgeClient(server.url, {
+        retry: { baseDelay: 1, onRetry: (e) => events.push(e.attempt) },
+      });
+      const data = await client.renderHtml("<p>x</p>").send();
+      assert.deepEqual(data, MOCK_PDF);
+      server.assertRequestCount(3, "/render");
+    });
+    assert.deepEqual(events, [1, 2]);
+  });
+
+  it("keeps earlier attempts on the final error", async () => {
+    let calls = 0;
+    await withServer(
+      (_req, res) => {
+        calls++;
+        res.writeHead(502, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: `attempt ${calls}` }));
+      },
+      async (baseUrl) => {
+        const client = new ForgeClient(baseUrl, { retry: { maxAttempts: 2, baseDelay: 1 } });
+        await assert.rejects(client.renderHtml("<p>x</p>").send(), (err: unknown) => {
+          assert.ok(err instanceof ForgeServerError);
+          assert.equal(err.message, "server error (502): attempt 2");
+          assert.equal(err.previousAttempts.length, 1);
+          assert.equal(err.previousAttempts[0].message, "server error (502): attempt 1");
+          return true;
+        });
+      },
+    );
+    assert.equal(calls, 2);
+  });
+
+  it("does not retry without a retry policy or on non-retryable status", async () => {
+    let calls = 0;
+    await withServer(
+      (_req, res) => {
+        calls++;
+        res.writeHead(calls === 1 ? 503 : 400);
+        res.end();
+      },
+      async (baseUrl) => {
+        await assert.rejects(new ForgeClient(baseUrl).renderHtml("").send(), ForgeServerError);
+        const client = new ForgeClient(baseUrl, { retry: { baseDelay: 1 } });
+        await assert.rejects(client.renderHtml("").send(), ForgeServerError);
+      },
+    );
+    assert.equal(calls, 2);
+  });
+});
+
+describe("sendStream", () => {
+  it("streams the body with content length and warnings", async () => {
+    await withMockServer(async (server) => {
+      server.enqueue({ body: "%PDF-1.7", warnings: ["flex-wrap unsupported"] });
+      const result = await new ForgeClient(server.url).renderHtml("<p>x</p>").sendStream();
+      assert.equal(result.contentLength, 8);
+      assert.deepEqual(result.warnings, [{ message: "flex-wrap unsupported" }]);
+
+      const chunks: Buffer[] = [];
+      const sink = new Writable({
+        write(chunk: Buffer, _enc, cb) {
+          chunks.push(chunk);
+          cb();
+        },
+      });
+      await pipeToWritable(result, sink);
+      assert.equal(Buffer.concat(chunks).toString(), "%PDF-1.7");
+    });
+  });
+
+  it("throws ForgeServerError before returning a stream", async () => {
+    await withMockServer(async (server) => {
+      server.enqueue({ status: 422, error: "bad html" });
+      await assert.rejects(
+        new ForgeClient(server.url).renderHtml("<p>x</p>").sendStream(),
+        { name: "ForgeServerError", status: 422 },
+      );
+    });
+  });
+});
+
+describe("MockForgeServer", () => {
+  it("records payloads and returns canned output per format", async () => {
+    await withMockServer(async (server) => {
+      const client = new ForgeClient(server.url);
+      assert.equal(await client.health(), true);
+      assert.deepEqual(await client.renderHtml("<h1>Hi</h1>").pdfTitle("Hi").send(), MOCK_PDF);
+      const png = await client.renderUrl("https://example.com").format("png").send();
+      assert.equal(detectMimeType(png), "image/png");
+      assert.deepEqual(await client.renderBarcode(BarcodeType.Qr, "x", { format: "svg" }), MOCK_SVG);
+
+      server.assertRequestCount(4);
+      server.assertRendered({ html: "<h1>Hi</h1>", pdf: { title: "Hi" } });
+      server.assertRendered((p) => p.url === "https://example.com");
+      assert.equal(server.lastPayload().format, "png");
+      assert.throws(() => server.assertRendered({ html: "<h1>Bye</h1>" }), {
+        name: "AssertionError",
+        message: /the last differs at html/,
+      });
+      assert.throws(() => server.assertRequestCount(1, "/render"), /expected 1 request to \/render, got 2/);
+    });
+  });
+
+  it("injects warnings and scripted errors", async () => {
+    await withMockServer(async (server) => {
+      const client = new ForgeClient(server.url);
+      server.enqueue({
+        warnings: ["plain, with comma", { code: "grid", message: "grid ignored", location: { line: 3 } }],
+      });
+      const { data, warnings } = await client.renderHtml("<p>x</p>").sendWithWarnings();
+      assert.deepEqual(data, MOCK_PDF);
+      assert.deepEqual(warnings, [
+        { message: "plain, with comma" },
+        { code: "grid", message: "grid ignored", location: { line: 3 } },
+      ]);
+
+      server.on("POST", "/render", (req) =>
+        (req.body as RenderPayload).html === "bad" ? { status: 400, error: "invalid html" } : undefined,
+      );
+      await assert.rejects(client.renderHtml("bad").send(), { name: "ForgeServerError", status: 400 });
+      assert.deepEqual(await client.renderHtml("good").send(), MOCK_PDF);
+
+      server.on("POST", "/barcode", () => {
+        throw new Error("handler bug");
+      });
+      await assert.rejects(client.renderBarcode(BarcodeType.Qr, "x"), { status: 500, message: /handler bug/ });
+
+      server.on("GET", "/health", { drop: true });
+      assert.equal(await client.health(), false);
+    });
+  });
+
+  it("simulates timeouts and slow streams", async () => {
+    await withMockServer(async (server) => {
+      const client = new ForgeClient(server.url);
+      server.enqueue({ hang: true }, { delay: 40 }, { chunkDelay: 5, chunkSize: 4 });
+      await assert.rejects(client.renderHtml("<p>x</p>").send({ timeout: 20 }), ForgeTimeoutError);
+      await assert.rejects(client.renderHtml("<p>x</p>").send({ timeout: 20 }), ForgeTimeoutError);
+
+      const result = await client.renderHtml("<p>x</p>").sendStream();
+      const chunks: number[] = [];
+      for await (const chunk of result.body) chunks.push(chunk.length);
+      assert.ok(chunks.length > 1);
+      assert.equal(
+        chunks.reduce((a, b) => a + b, 0),
+        MOCK_PDF.length,
+      );
+    });
+  });
+
+  it("runs asynchronous jobs to completion", async () => {
+    await withMockServer(async (server) => {
+      const client = new ForgeClient(server.url);
+      const job = await client.renderHtml("<p>job</p>").format("png").submit();
+      assert.equal((await job.wait({ pollInterval: 1 })).state, "completed");
+      assert.deepEqual((await job.result()).data, MOCK_PNG);
+      server.assertRendered({ html: "<p>job</p>" });
+    });
+  });
+});
+
+describe("server capabilities", () => {
+  const info = {
+    version: "1.4.0",
+    api_version: 1,
+    formats: ["pdf", "png"],
+    pdf: { modes: ["auto", "vector"], features: ["barcodes"] },
+    barcode_types: ["qr"],
+    limits: { max_width: 2000 },
+  };
+
+  it("fetches and caches server info", async () => {
+    await withMockServer(async (server) => {
+      server.on("GET", "/info", { body: info });
+      const client = new ForgeClient(server.url);
+      const result = await client.info();
+      assert.equal(result.version, "1.4.0");
+      assert.equal(result.apiVersion, 1);
+      assert.deepEqual(result.capabilities.formats, ["pdf", "png"]);
+      assert.deepEqual(result.capabilities.pdfFeatures, ["barcodes"]);
+      assert.equal(result.limits.maxWidth, 2000);
+      assert.deepEqual((await client.capabilities()).barcodeTypes, ["qr"]);
+      server.assertRequestCount(1, "/info");
+      await client.info({ refresh: true });
+      server.assertRequestCount(2, "/info");
+    });
+  });
+
+  it("does not cache a failed info request", async () => {
+    await withMockServer(async (server) => {
+      let calls = 0;
+      server.on("GET", "/info", () => (++calls === 1 ? { status: 503, error: "starting" } : { body: info }));
+      const client = new ForgeClient(server.url);
+      await assert.rejects(client.info(), ForgeServerError);
+      assert.equal((await client.info()).version, "1.4.0");
+    });
+  });
+
+  it("rejects unsupported features before sending with checkCapabilities", async () => {
+    await withMockServer(async (server) => {
+      server.on("GET", "/info", { body: info });
+      const client = new ForgeClient(server.url, { checkCapabilities: true });
+      await assert.rejects(
+        client
+          .renderHtml("<p>x</p>")
+          .format("qoi")
+          .width(4000)
+          .pdfMode("raster")
+          .pdfLinearize(true)
+          .pdfBarcode(BarcodeType.Code128, "ABC")
+          .send(),
+        (err: unknown) => {
+          assert.ok(err instanceof ForgeCapabilityError);
+          assert.equal(err.serverVersion, "1.4.0");
+          assert.deepEqual(
+            err.issues.map((i) => `${i.path} [${i.rule}]`),
+            [
+              "format [unsupported]",
+              "width [range]",
+              "pdf.mode [unsupported]",
+              "pdf.linearize [unsupported]",
+              "pdf.barcodes[0].type [unsupported]",
+            ],
+          );
+          return true;
+        },
+      );
+      await assert.rejects(client.renderBarcode(BarcodeType.Code128, "ABC"), ForgeCapabilityError);
+      server.assertRequestCount(0, "/render");
+      server.assertRequestCount(0, "/barcode");
+
+      assert.deepEqual(await client.renderHtml("<p>x</p>").pdfBarcode(BarcodeType.Qr, "x").send(), MOCK_PDF);
+      server.assertRequestCount(1, "/info");
+    });
+  });
+
+  it("rejects a server speaking another API version", async () => {
+    await withMockServer(async (server) => {
+      server.on("GET", "/info", { body: { version: "2.0.0", api_version: API_VERSION + 1 } });
+      const client = new ForgeClient(server.url, { checkCapabilities: true });
+      await assert.rejects(client.renderHtml("<p>x</p>").send(), /api_version: server speaks API version 2/);
+    });
+  });
+
+  it("reports health details", async () => {
+    await withMockServer(async (server) => {
+      const client = new ForgeClient(server.url);
+      const status = await client.healthDetails();
+      assert.equal(status.healthy, true);
+      assert.equal(status.version, MOCK_VERSION);
+      assert.equal(status.queueDepth, 0);
+      assert.ok(status.latency >= 0);
+
+      server.on("GET", "/health", { status: 503, error: "draining" });
+      const down = await client.healthDetails();
+      assert.equal(down.healthy, false);
+      assert.equal(down.error, "server error (503): draining");
+    });
+  });
+});
+
+describe("load balancing", () => {
+  /** URL of a port nothing listens on. */
+  const deadUrl = async () => {
+    const server = await MockForgeServer.start();
+    await server.close();
+    return server.url;
+  };
+
+  it("spreads requests round-robin and reports metrics", async () => {
+    await withMockServer(async (a) => {
+      await withMockServer(async (b) => {
+        const client = new ForgeClient([a.url, b.url + "/"]);
+        for (let i = 0; i < 4; i++) await client.renderHtml(`<p>${i}</p>`).send();
+        a.assertRequestCount(2);
+        b.assertRequestCount(2);
+        const metrics = client.endpointMetrics();
+        assert.deepEqual(
+          metrics.map((m) => [m.url, m.healthy, m.requests, m.inFlight, m.failures]),
+          [
+            [a.url, true, 2, 0, 0],
+            [b.url, true, 2, 0, 0],
+          ],
+        );
+        assert.ok(metrics[0].averageLatency! >= 0);
+      });
+    });
+  });
+
+  it("fails over on connection errors and cools the endpoint down", async () => {
+    const dead = await deadUrl();
+    await withMockServer(async (server) => {
+      const client = new ForgeClient([dead, server.url], { loadBalancing: { cooldown: 60_000 } });
+      for (let i = 0; i < 3; i++) assert.deepEqual(await client.renderHtml("<p>x</p>").send(), MOCK_PDF);
+      server.assertRequestCount(3);
+      const [down, up] = client.endpointMetrics();
+      assert.equal(down.healthy, false);
+      assert.equal(down.requests, 1);
+      assert.equal(down.failures, 1);
+      assert.match(down.lastError!, /connection error/);
+      assert.ok(down.unhealthyUntil! > Date.now());
+      assert.equal(up.requests, 3);
+    });
+  });
+
+  it("throws once every endpoint is unreachable", async () => {
+    const client = new ForgeClient([await deadUrl(), await deadUrl()]);
+    await assert.rejects(client.renderHtml("<p>x</p>").send(), (err: unknown) => {
+      assert.ok(err instanceof ForgeConnectionError);
+      assert.equal(err.previousAttempts.length, 1);
+      return true;
+    });
+    assert.deepEqual(
+      client.endpointMetrics().map((m) => m.failures),
+      [1, 1],
+    );
+  });
+
+  it("does not resend a job submission lost after it was sent", async () => {
+    await withMockServer(async (a) => {
+      await withMockServer(async (b) => {
+        a.on("POST", "/render/jobs", { drop: true });
+        const client = new ForgeClient([a.url, b.url]);
+        await assert.rejects(client.renderHtml("<p>job</p>").submit(), ForgeConnectionError);
+        a.assertRequestCount(1, "/render/jobs");
+        b.assertRequestCount(0);
+
+        const dead = await deadUrl();
+        const job = await new ForgeClient([dead, b.url]).renderHtml("<p>job</p>").submit();
+        assert.equal(job.endpoint, b.url);
+      });
+    });
+  });
+
+  it("marks endpoints with a failed health check unhealthy", async () => {
+    await withMockServer(async (a) => {
+      await withMockServer(async (b) => {
+        a.on("GET", "/health", { status: 503, error: "draining" });
+        const client = new ForgeClient([a.url, b.url]);
+        assert.equal(await client.health(), false);
+        assert.equal(client.endpointMetrics()[0].healthy, false);
+        for (let i = 0; i < 2; i++) await client.renderHtml("<p>x</p>").send();
+        a.assertRequestCount(0, "/render");
+        b.assertRequestCount(2, "/render");
+      });
+    });
+  });
+
+  it("prefers the endpoint with the fewest requests in flight", async () => {
+    await withMockServer(async (a) => {
+      await withMockServer(async (b) => {
+        a.enqueue({ delay: 100 });
+        const client = new ForgeClient([a.url, b.url], { loadBalancing: { strategy: "least-in-flight" } });
+        const slow = client.renderHtml("<p>slow</p>").send();
+        await client.renderHtml("<p>1</p>").send();
+        await client.renderHtml("<p>2</p>").send();
+        await slow;
+        a.assertRequestCount(1);
+        b.assertRequestCount(2);
+      });
+    });
+  });
+
+  it("keeps jobs on the endpoint that accepted them", async () => {
+    await withMockServer(async (a) => {
+      await withMockServer(async (b) => {
+        const client = new ForgeClient([a.url, b.url]);
+        const job = await client.renderHtml("<p>job</p>").submit();
+        assert.equal(job.endpoint, a.url);
+        await job.wait({ pollInterval: 1 });
+        await client.job(job.id, job.endpoint).result();
+        a.assertRequestCount(3);
+        b.assertRequestCount(0);
+      });
+    });
+  });
+});
+
+describe("request queue", () => {
+  const pause = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it("limits render requests in flight and reports queue stats", async () => {
+    await withMockServer(async (server) => {
+      // Hold the renders until the first two have arrived and been checked.
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => (release = resolve));
+      let arrived!: () => void;
+      const twoArrived = new Promise<void>((resolve) => (arrived = resolve));
+      server.on("POST", "/render", async () => {
+        if (server.requests.length === 2) arrived();
+        await released;
+        return {};
+      });
+      const client = new ForgeClient(server.url, { maxConcurrent: 2 });
+      const sends = Promise.allSettled([1, 2, 3, 4].map((i) => client.renderHtml(`<p>${i}</p>`).send()));
+      try {
+        await twoArrived;
+        await pause(20);
+        const during = client.queueStats();
+        assert.equal(during.inFlight, 2);
+        assert.equal(during.queued, 2);
+        assert.deepEqual(during.queuedByPriority, { high: 0, normal: 2, low: 0 });
+        server.assertRequestCount(2, "/render");
+      } finally {
+        release();
+      }
+
+      assert.ok((await sends).every((r) => r.status === "fulfilled"));
+      const after = client.queueStats();
+      assert.equal(after.queued, 0);
+      assert.equal(after.inFlight, 0);
+      assert.equal(after.dispatched, 4);
+      assert.ok(after.maxWait >= 20);
+      assert.ok(after.averageWait > 0);
+      assert.equal(await client.health(), true);
+      assert.equal(client.queueStats().dispatched, 4);
+    });
+  });
+
+  it("lets higher priorities jump the queue", async () => {
+    await withMockServer(async (server) => {
+      server.enqueue({ delay: 40 });
+      const client = new ForgeClient(server.url, { maxConcurrent: 1 });
+      const first = client.renderHtml("first").send();
+      await pause(10);
+      const rest = [
+        client.renderHtml("low 1").send({ priority: "low" }),
+        client.renderHtml("low 2").send({ priority: "low" }),
+        client.renderHtml("normal").send(),
+        client.renderHtml("high").send({ priority: "high" }),
+      ];
+      await Promise.all([first, ...rest]);
+      assert.deepEqual(
+        server.payloads.map((p) => p.html),
+        ["first", "high", "normal", "low 1", "low 2"],
+      );
+    });
+  });
+
+  it("honours the timeout and signal of queued requests", async () => {
+    await withMockServer(async (server) => {
+      server.enqueue({ delay: 80 });
+      const client = new ForgeClient(server.url, { maxConcurrent: 1 });
+      const first = client.renderHtml("<p>1</p>").send();
+      await pause(10);
+      const controller = new AbortController();
+      const aborted = client.renderHtml("<p>2</p>").send({ signal: controller.signal });
+      const timedOut = client.renderHtml("<p>3</p>").send({ timeout: 20 });
+      setTimeout(() => controller.abort("user left"), 5);
+      await assert.rejects(aborted, ForgeAbortError);
+      await assert.rejects(timedOut, (err: unknown) => err instanceof ForgeTimeoutError && err.timeout === 20);
+      assert.equal(client.queueStats().queued, 0);
+      await first;
+      server.assertRequestCount(1, "/render");
+    });
+  });
+
+  it("spaces requests with a token bucket", async () => {
+    await withMockServer(async (server) => {
+      const client = new ForgeClient(server.url, { rateLimit: { requestsPerSecond: 20, burst: 1 } });
+      const started = Date.now();
+      await Promise.all([1, 2, 3].map((i) => client.renderHtml(`<p>${i}</p>`).send()));
+      assert.ok(Date.now() - started >= 90);
+      server.assertRequestCount(3, "/render");
+    });
+  });
+
+  it("rejects limits that are not positive numbers", () => {
+    const url = "http://localhost:3000";
+    assert.throws(() => new ForgeClient(url, { maxConcurrent: 0 }), /maxConcurrent must be a positive number, got 0/);
+    assert.throws(() => new ForgeClient(url, { rateLimit: { requestsPerSecond: 0 } }), /requestsPerSecond must be/);
+    assert.throws(() => new ForgeClient(url, { rateLimit: { requestsPerSecond: NaN } }), /requestsPerSecond/);
+    assert.throws(() => new ForgeClient(url, { rateLimit: { requestsPerSecond: 5, burst: NaN } }), /burst/);
+    assert.doesNotThrow(() => new ForgeClient(url, { maxConcurrent: Infinity, rateLimit: { requestsPerSecond: 0.5 } }));
+  });
+});
+
+describe("lifecycle events", () => {
+  it("reports a render from request to completion", async () => {
+    await withMockServer(async (server) => {
+      server.enqueue({ warnings: ["[grid] approximated"] });
+      const client = new ForgeClient(server.url);
+      const events: [string, unknown][] = [];
+      for (const type of ["request", "response", "warnings", "complete", "error"] as const) {
+        client.on(type, (e) => events.push([type, e]));
+      }
+      client.on("request", () => {
+        throw new Error("listener failures are ignored");
+      });
+
+      await client.renderHtml("<p>x</p>").paper("a4").format("pdf").sendWithWarnings();
+      assert.deepEqual(
+        events.map(([type]) => type),
+        ["request", "response", "warnings", "complete"],
+      );
+      const request = events[0][1] as RequestStartEvent;
+      assert.equal(request.path, "/render");
+      assert.equal(request.endpoint, server.url);
+      assert.equal(request.format, "pdf");
+      assert.equal(request.paper, "a4");
+      assert.equal(request.payloadSize, JSON.stringify(server.lastPayload()).length);
+      const complete = events[3][1] as CompleteEvent;
+      assert.equal(complete.requestId, request.requestId);
+      assert.equal(complete.status, 200);
+      assert.equal(complete.responseSize, MOCK_PDF.length);
+      assert.ok(complete.duration >= 0);
+      assert.deepEqual((events[2][1] as WarningsEvent).warnings, [{ code: "grid", message: "approximated" }]);
+
+      events.length = 0;
+      await client.health();
+      assert.deepEqual(
+        events.map(([type]) => type),
+        ["request", "response", "complete"],
+      );
+    });
+  });
+
+  it("reports failed attempts and streamed output", async () => {
+    await withMockServer(async (server) => {
+      server.enqueue({ status: 503, error: "busy" });
+      const client = new ForgeClient(server.url, { retry: { baseDelay: 1 } });
+      const events: string[] = [];
+      client.on("request", (e) => events.push(`request ${e.attempt}`));
+      client.on("response", (e) => events.push(`response ${e.status}`));
+      client.on("error", (e) => events.push(`error ${e.status} ${e.willRetry}`));
+      client.on("complete", (e) => events.push(`complete ${e.responseSize}`));
+
+      const result = await client.renderHtml("<p>x</p>").sendStream();
+      assert.deepEqual(events, ["request 1", "response 503", "error 503 true", "request 2", "response 200"]);
+      for await (const _chunk of result.body);
+      assert.equal(events.at(-1), `complete ${MOCK_PDF.length}`);
+
+      events.length = 0;
+      server.enqueue({ status: 400, error: "bad" });
+      await assert.rejects(client.renderHtml("<p>x</p>").send(), ForgeServerError);
+      assert.deepEqual(events, ["request 1", "response 400", "error 400 false"]);
+    });
+  });
+
+  it("numbers requests across clients derived with withDefaults()", async () => {
+    await withMockServer(async (server) => {
+      const client = new ForgeClient(server.url);
+      const ids: number[] = [];
+      client.on("request", (e) => ids.push(e.requestId));
+      const derived = client.withDefaults({ paper: "a4" });
+      for (const c of [derived, client, derived, client]) await c.renderHtml("<p>x</p>").send();
+      assert.deepEqual(ids, [1, 2, 3, 4]);
+    });
+  });
+
+  it("traces requests with OpenTelemetry spans and traceparent", async () => {
+    const spans: {
+      name: string;
+      attributes: Record<string, unknown>;
+      status?: { code: number; message?: string };
+      exceptions: Error[];
+      ended: boolean;
+    }[] = [];
+    const tracer: OtelTracer = {
+      startSpan(name, options) {
+        const record = { name, attributes: { ...options?.attributes }, exceptions: [] as Error[], ended: false };
+        spans.push(record);
+        const spanId = String(spans.length).padStart(16, "0");
+        return {
+          setAttribute: (key, value) => (record.attributes[key] = value),
+          setStatus: (status) => Object.assign(record, { status }),
+          recordException: (e) => record.exceptions.push(e),
+          spanContext: () => ({ traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId, traceFlags: 1 }),
+          end: () => (record.ended = true),
+        };
+      },
+    };
+
+    await withMockServer(async (server) => {
+      const client = new ForgeClient(server.url);
+      const stop = instrumentOpenTelemetry(client, tracer);
+      await client.renderHtml("<p>x</p>").format("png").width(800).send();
+      server.enqueue({ status: 422, error: "bad html" });
+      await assert.rejects(client.renderHtml("<p>y</p>").send(), ForgeServerError);
+      stop();
+      await client.renderHtml("<p>z</p>").send();
+
+      assert.equal(server.requests[0].headers.traceparent, "00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000001-01");
+      assert.equal(server.requests[2].headers.traceparent, undefined);
+      assert.equal(spans.length, 2);
+      const [ok, failed] = spans;
+      assert.equal(ok.name, "forge POST /render");
+      assert.equal(ok.ended, true);
+      assert.deepEqual(ok.status, { code: 1 });
+      assert.equal(ok.attributes["forge.format"], "png");
+      assert.equal(ok.attributes["forge.width"], 800);
+      assert.equal(ok.attributes["http.response.status_code"], 200);
+      assert.equal(ok.attributes["http.response.body.size"], MOCK_PNG.length);
+      assert.equal(ok.attributes["url.full"], `${server.url}/render`);
+      assert.equal(ok.attributes["server.address"], "127.0.0.1");
+      assert.equal(ok.attributes["server.port"], Number(new URL(server.url).port));
+      assert.deepEqual(failed.status, { code: 2, message: "server error (422): bad html" });
+      assert.equal(failed.attributes["error.type"], "ForgeServerError");
+      assert.equal(failed.exceptions.length, 1);
+    });
+  });
+
+  it("ends the span of a stream that is cancelled or fails", async () => {
+    const ended: { code: number; message?: string }[] = [];
+    const tracer: OtelTracer = {
+      startSpan() {
+        let status = { code: 0 };
+        return {
+          setAttribute: () => undefined,
+          setStatus: (s) => (status = s),
+          recordException: () => undefined,
+          spanContext: () => ({ traceId: "4bf92f3577b34da6a3ce929d0e0e4736", spanId: "00f067aa0ba902b7", traceFlags: 1 }),
+          end: () => ended.push(status),
+        };
+      },
+    };
+    let renders = 0;
+    await withServer(
+      (req, res) => {
+        req.resume();
+        res.writeHead(200);
+        res.write("partial");
+        // The second render loses its connection mid-body.
+        if (++renders === 2) setTimeout(() => res.destroy(), 10);
+      },
+      async (baseUrl) => {
+        const client = new ForgeClient(baseUrl);
+        instrumentOpenTelemetry(client, tracer);
+        const cancelled = await client.renderHtml("<p>x</p>").sendStream();
+        const reader = cancelled.body.getReader();
+        await reader.read();
+        await reader.cancel("not needed");
+        assert.deepEqual(ended, [{ code: 2, message: "request aborted" }]);
+
+        const failed = await client.renderHtml("<p>x</p>").sendStream();
+        await assert.rejects(new Response(failed.body).arrayBuffer(), ForgeConnectionError);
+        assert.equal(ended.length, 2);
+        assert.equal(ended[1].code, 2);
+      },
+    );
+  });
+});
+
+describe("renderBatch", () => {
+  /** Server that echoes the HTML back, failing on "fail" and delaying on "slow". */
+  const echo = (req: IncomingMessage, res: ServerResponse) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      const { html } = JSON.parse(body) as { html: string };
+      if (html === "fail") {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "boom" }));
+        return;
+      }
+      setTimeout(() => res.end(html), html === "slow" ? 50 : 0);
+    });
+  };
+
+  it("returns results in input order with progress", async () => {
+    await withServer(echo, async (baseUrl) => {
+      const client = new ForgeClient(baseUrl);
+      const progress: number[] = [];
+      const results = await client.renderBatch(
+        ["slow", "a", "fail", "b"].map((h) => client.renderHtml(h)),
+        { concurrency: 2, onProgress: (p) => progress.push(p.completed) },
+      );
+      assert.deepEqual(results.map((r) => r.index), [0, 1, 2, 3]);
+      assert.deepEqual(results.map((r) => r.ok), [true, true, false, true]);
+      const first = results[0];
+      assert.ok(first.ok && new TextDecoder().decode(first.response.data) === "slow");
+      const failed = results[2];
+      assert.ok(!failed.ok && failed.error instanceof ForgeServerError);
+      assert.deepEqual(progress, [1, 2, 3, 4]);
+    });
+  });
+
+  it("yields results as they finish", async () => {
+    await withServer(echo, async (baseUrl) => {
+      const client = new ForgeClient(baseUrl);
+      const order: number[] = [];
+      for await (const r of client.renderBatchIterator(
+        ["slow", "a"].map((h) => client.renderHtml(h)),
+        { concurrency: 2 },
+      )) {
+        order.push(r.index);
+      }
+      assert.deepEqual(order, [1, 0]);
+    });
+  });
+
+  it("stops starting items after an error or abort", async () => {
+    await withServer(echo, async (baseUrl) => {
+      const client = new ForgeClient(baseUrl);
+      const stopped = await client.renderBatch(
+        ["fail", "a", "b"].map((h) => client.renderHtml(h)),
+        { concurrency: 1, stopOnError: true },
+      );
+      assert.deepEqual(stopped.map((r) => r.ok), [false, false, false]);
+      assert.ok(!stopped[1].ok && stopped[1].error.message.includes("cancelled"));
+
+      const aborted = await client.renderBatch([client.renderHtml("a")], {
+        signal: AbortSignal.abort(),
+      });
+      assert.equal(aborted.length, 1);
+      assert.equal(aborted[0].ok, false);
+    });
+  });
+
+  it("rejects a concurrency that is not a number", async () => {
+    const client = new ForgeClient("http://localhost:3000");
+    await assert.rejects(client.renderBatch([client.renderHtml("a")], { concurrency: NaN }), /must be a number/);
+  });
+});
+
+describe("validate", () => {
+  const client = new ForgeClient("http://localhost:3000");
+
+  it("accepts a valid payload", () => {
+    const issues = client
+      .renderHtml("<p>ok</p>")
+      .margins("10,20,10,20")
+      .colors(16)
+      .palette(["#000", "#ffffff"])
+      .pdfWatermarkOpacity(0.2)
+      .pdfWatermarkPages("1,3-5")
+      .pdfAccessibility("pdf/ua-1")
+      .pdfLang("en-US")
+      .validate();
+    assert.deepEqual(issues, []);
+  });
+
+  it("reports each problem with its field path and rule", () => {
+    const issues = client
+      .renderHtml("<p>bad</p>")
+      .margins("10,20")
+      .colors(300)
+      .palette(["#000000", "red"])
+      .pdfWatermarkOpacity(1.5)
+      .pdfWatermarkPages("3-1")
+      .pdfBarcode(BarcodeType.Qr, "x", { pages: "0" })
+      .pdfStandard(PdfStandard.A2B)
+      .pdfAttach("a.xml", "PGE+", { relationship: EmbedRelationship.Data })
+      .pdfAccessibility("pdf/ua-1")
+      .validate();
+    assert.deepEqual(
+      issues.map((i) => `${i.path}:${i.rule}`),
+      [
+        "margins:format",
+        "quantize.colors:range",
+        "quantize.palette[1]:format",
+        "pdf.watermark.opacity:range",
+        "pdf.watermark.pages:format",
+        "pdf.barcodes[0].pages:format",
+        "pdf.embedded_files:conflict",
+        "pdf.document_lang:required",
+      ],
+    );
+  });
+
+  it("throws ForgeValidationError in strict mode without sending", async () => {
+    const builder = client.renderHtml("<p>x</p>").colors(1);
+    assert.throws(() => builder.validate({ strict: true }), ForgeValidationError);
+
+    const strict = new ForgeClient("http://127.0.0.1:1", { strictValidation: true });
+    await assert.rejects(strict.renderHtml("<p>x</p>").colors(1).send(), (err: unknown) => {
+      assert.ok(err instanceof ForgeValidationError);
+      assert.deepEqual(err.issues.map((i) => i.path), ["quantize.colors"]);
+      return true;
+    });
+  });
+
+  it("checks encryption settings", () => {
+    const check = (builder: RenderRequestBuilder) => builder.validate().map((i) => `${i.path}:${i.rule}`);
+    assert.deepEqual(check(client.renderHtml("x").pdfOwnerPassword("o").pdfPermissions([PdfPermission.Print])), []);
+    assert.deepEqual(check(client.renderHtml("x").pdfOwnerPassword("o")), ["pdf.encryption.permissions:required"]);
+    assert.deepEqual(check(client.renderHtml("x").pdfOwnerPassword("o").pdfPermissions(Object.values(PdfPermission))), [
+      "pdf.encryption.permissions:required",
+    ]);
+    assert.deepEqual(check(client.renderHtml("x").pdfPermissions("print,cpoy")), [
+      "pdf.encryption.permissions:unknown",
+      "pdf.encryption.owner_password:required",
+    ]);
+    assert.deepEqual(check(client.renderHtml("x").pdfEncryptionAlgorithm("rc4" as "aes-128")), [
+      "pdf.encryption.algorithm:format",
+      "pdf.encryption:required",
+    ]);
+  });
+
+  it("checks headers and footers", () => {
+    const issues = client
+      .renderHtml("<p>x</p>")
+      .asset("style.css", new Uint8Array())
+      .pdfHeader('<img src="logo.png"> Page {pgae}', { height: 0 })
+      .pdfHeader("Cover", { variant: "first", pages: "1" })
+      .pdfFooter("{page}/{pages}", { pages: "5-2" })
+      .pdfPageNumbers(true)
+      .validate();
+    assert.deepEqual(
+      issues.map((i) => `${i.path}:${i.rule}`),
+      [
+        "assets:required",
+        "pdf.headers[0].height:range",
+        "pdf.headers[0].html:unknown",
+        "pdf.headers[1].pages:conflict",
+        "pdf.footers[0].pages:format",
+        "pdf.page_numbers:conflict",
+      ],
+    );
+  });
+});
+
+describe("barcodes", () => {
+  const client = new ForgeClient("http://localhost:3000");
+  const rules = (type: BarcodeType, data: string) => validateBarcode(type, data).map((i) => `${i.path}:${i.rule}`);
+
+  it("computes GS1 check digits", () => {
+    assert.equal(gs1CheckDigit("400638133393"), "1");
+    assert.equal(gs1CheckDigit("9638507"), "4");
+    assert.equal(gs1CheckDigit("03600029145"), "2");
+    assert.equal(gs1CheckDigit("37612345000001003"), "9");
+    const payload = client
+      .renderHtml("x")
+      .pdfBarcode(BarcodeType.Ean13, "400638133393", { autoCheckDigit: true })
+      .pdfBarcode(BarcodeType.UpcA, "036000291452", { autoCheckDigit: true })
+      .buildPayload();
+    assert.deepEqual(payload.pdf?.barcodes?.map((b) => b.data), ["4006381333931", "036000291452"]);
+  });
+
+  it("checks length, check digit and character sets per symbology", () => {
+    assert.deepEqual(rules(BarcodeType.Ean13, "4006381333931"), []);
+    assert.deepEqual(rules(BarcodeType.Ean13, "4006381333932"), ["data:format"]);
+    assert.deepEqual(rules(BarcodeType.Ean8, "123"), ["data:format"]);
+    assert.deepEqual(rules(BarcodeType.Code39, "ABC-123 $"), []);
+    assert.deepEqual(rules(BarcodeType.Code39, "abc"), ["data:format"]);
+    assert.deepEqual(rules(BarcodeType.Codabar, "A40156B"), []);
+    assert.deepEqual(rules(BarcodeType.Codabar, "A401X6B"), ["data:format"]);
+    assert.deepEqual(rules(BarcodeType.Itf, "1234"), []);
+    assert.deepEqual(rules(BarcodeType.Itf, "12345"), ["data:format"]);
+    assert.deepEqual(rules(BarcodeType.Qr, "1".repeat(7089)), []);
+    assert.deepEqual(rules(BarcodeType.Qr, "x".repeat(2954)), ["data:range"]);
+    assert.deepEqual(rules(BarcodeType.DataMatrix, "A".repeat(2336)), ["data:range"]);
+    assert.deepEqual(rules("qrcode" as BarcodeType, "x"), ["type:unknown"]);
+    assert.deepEqual(
+      client.renderHtml("x").pdfBarcode(BarcodeType.Ean8, "1234567").validate().map((i) => `${i.path}:${i.rule}`),
+      ["pdf.barcodes[0].data:format"],
+    );
+  });
+
+  it("checks error correction levels", () => {
+    assert.deepEqual(rules(BarcodeType.Qr, "x".repeat(2000)), []);
+    assert.deepEqual(validateBarcode(BarcodeType.Qr, "x".repeat(2000), "H").map((i) => i.rule), ["range"]);
+    assert.deepEqual(validateBarcode(BarcodeType.Qr, "x", "X" as "L").map((i) => `${i.path}:${i.rule}`), [
+      "error_correction:format",
+    ]);
+    assert.deepEqual(validateBarcode(BarcodeType.Aztec, "x", 33), []);
+    assert.deepEqual(validateBarcode(BarcodeType.Aztec, "x", 99).map((i) => i.rule), ["range"]);
+    assert.deepEqual(validateBarcode(BarcodeType.Code128, "x", "M").map((i) => i.rule), ["conflict"]);
+    const payload = client.renderHtml("x").pdfBarcode(BarcodeType.Qr, "x", { errorCorrection: "Q" }).buildPayload();
+    assert.deepEqual(payload.pdf?.barcodes, [{ type: "qr", data: "x", error_correction: "Q" }]);
+  });
+
+  it("renders a standalone barcode image", async () => {
+    let received: unknown;
+    await withServer(
+      (req, res) => {
+        let body = "";
+        req.on("data", (c) => (body += c));
+        req.on("end", () => {
+          assert.equal(req.url, "/barcode");
+          received = JSON.parse(body);
+          res.writeHead(200, { "Content-Type": "image/svg+xml" });
+          res.end("<svg/>");
+        });
+      },
+      async (baseUrl) => {
+        const image = await new ForgeClient(baseUrl).renderBarcode(BarcodeType.Qr, "https://example.com", {
+          format: "svg",
+          size: 256,
+          foreground: "#112233",
+          quietZone: 4,
+          errorCorrection: "H",
+        });
+        assert.equal(new TextDecoder().decode(image), "<svg/>");
+        assert.deepEqual(received, {
+          type: "qr",
+          data: "https://example.com",
+          format: "svg",
+          size: 256,
+          foreground: "#112233",
+          quiet_zone: 4,
+          error_correction: "H",
+        });
+      },
+    );
+
+    const strict = new ForgeClient("http://127.0.0.1:1", { strictValidation: true });
+    await assert.rejects(strict.renderBarcode(BarcodeType.Ean8, "1234", { size: -1 }), (err: unknown) => {
+      assert.ok(err instanceof ForgeValidationError);
+      assert.deepEqual(err.issues.map((i) => `${i.path}:${i.rule}`), ["data:format", "size:range"]);
+      return true;
+    });
+  });
+
+  it("builds GS1 element strings for shipping labels", () => {
+    assert.equal(
+      gs1({ "410": "401234500000", "00": "37612345000001003", "3103": "002500", "15": "261231" }),
+      "(00)376123450000010039(15)261231(3103)002500(410)4012345000009",
+    );
+    assert.equal(gs1([{ ai: "01", value: "09501101530003" }, { ai: "10", value: "AB-12" }], BarcodeType.DataMatrix), "(01)09501101530003(10)AB-12");
+    assert.throws(
+      () => gs1({ "01": "09501101530004", "17": "261331", "10": "X".repeat(21), "99": "x" }, BarcodeType.Ean13),
+      (err: unknown) => {
+        assert.ok(err instanceof ForgeValidationError);
+        assert.deepEqual(err.issues.map((i) => `${i.path}:${i.rule}`), [
+          "type:conflict",
+          "(01):format",
+          "(10):range",
+          "(17):format",
+          "(99):unknown",
+        ]);
+        return true;
+      },
+    );
+  });
+
+  it("flags GS1 barcodes in the payload and validates them", () => {
+    const client = new ForgeClient("http://localhost:3000");
+    const label = client
+      .renderHtml("<p>label</p>")
+      .pdfBarcode(BarcodeType.Code128, gs1({ "00": "37612345000001003" }), { gs1: true });
+    assert.deepEqual(label.buildPayload().pdf?.barcodes, [
+      { type: "code128", data: "(00)376123450000010039", gs1: true },
+    ]);
+    assert.deepEqual(label.validate(), []);
+    assert.deepEqual(
+      validateBarcode(BarcodeType.Ean13, "4006381333931", undefined, true).map((i) => `${i.path}:${i.rule}`),
+      ["gs1:conflict", "data:format"],
+    );
+  });
+});
+
+describe("e-invoices", () => {
+  const client = new ForgeClient("http://localhost:3000");
+  const cii = (guideline: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"
+    xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100">
+  <rsm:ExchangedDocumentContext>
+    <ram:GuidelineSpecifiedDocumentContextParameter>
+      <ram:ID>${guideline}</ram:ID>
+    </ram:GuidelineSpecifiedDocumentContextParameter>
+  </rsm:ExchangedDocumentContext>
+  <!-- seller & buyer omitted -->
+  <rsm:ExchangedDocument><ram:ID>RE-2026-42</ram:ID><ram:Name>Müller &amp; Söhne</ram:Name></rsm:ExchangedDocument>
+</rsm:CrossIndustryInvoice>`;
+  const en16931 = cii("urn:cen.eu:en16931:2017");
+
+  it("embeds the XML as PDF/A-3b with Factur-X metadata", () => {
+    const builder = client.renderHtml("<h1>Rechnung</h1>").pdfEInvoice(en16931, { profile: "en16931" });
+    const pdf = builder.buildPayload().pdf;
+    assert.equal(pdf?.standard, PdfStandard.A3B);
+    assert.deepEqual(pdf?.einvoice, {
+      flavor: "factur-x",
+      profile: "en16931",
+      document_type: "INVOICE",
+      document_file_name: "factur-x.xml",
+      version: "1.0",
+      conformance_level: "EN 16931",
+    });
+    assert.equal(pdf?.embedded_files?.length, 1);
+    const file = pdf?.embedded_files?.[0];
+    assert.equal(file?.path, "factur-x.xml");
+    assert.equal(file?.relationship, EmbedRelationship.Alternative);
+    assert.equal(new TextDecoder().decode(fromBase64(file?.data ?? "")), en16931);
+    assert.deepEqual(builder.validate(), []);
+    assert.deepEqual(builder.clone().buildPayload().pdf, pdf);
+  });
+
+  it("uses the file name of the flavor and replaces an earlier invoice", () => {
+    const pdf = client
+      .renderHtml("x")
+      .pdfEInvoice(cii("urn:factur-x.eu:1p0:minimum"), { profile: "minimum" })
+      .pdfEInvoice(new TextEncoder().encode(en16931), { profile: "en16931", flavor: "zugferd" })
+      .buildPayload().pdf;
+    assert.deepEqual(pdf?.embedded_files?.map((f) => f.path), ["zugferd-invoice.xml"]);
+    assert.equal(pdf?.einvoice?.conformance_level, "EN 16931");
+  });
+
+  it("rejects malformed XML and mismatched profiles", () => {
+    const rules = (xml: string, profile: EInvoiceProfile = "en16931") => {
+      try {
+        client.renderHtml("x").pdfEInvoice(xml, { profile });
+        return [];
+      } catch (err) {
+        assert.ok(err instanceof ForgeValidationError);
+        return err.issues.map((i) => `${i.rule}: ${i.message}`);
+      }
+    };
+    assert.match(rules("<rsm:CrossIndustryInvoice><a></b></rsm:CrossIndustryInvoice>")[0], /^format: .*<\/b> on line 1/);
+    assert.match(rules("<rsm:CrossIndustryInvoice>")[0], /is never closed/);
+    assert.match(rules("<rsm:CrossIndustryInvoice>A & B</rsm:CrossIndustryInvoice>")[0], /unescaped "&"/);
+    assert.match(rules("<Invoice/>")[0], /expected a CrossIndustryInvoice/);
+    assert.deepEqual(rules(en16931, "extended"), ["conflict: the XML declares the en16931 profile, not extended"]);
+    assert.deepEqual(
+      client
+        .renderHtml("x")
+        .pdfEInvoice(en16931, { profile: "en16931" })
+        .pdfStandard(PdfStandard.A2B)
+        .validate()
+        .map((i) => `${i.path}:${i.rule}`),
+      ["pdf.embedded_files:conflict", "pdf.standard:conflict"],
+    );
+  });
+});
+
+describe("binary inputs", () => {
+  const client = new ForgeClient("http://localhost:3000");
+  const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+  const text = (s: string) => new TextEncoder().encode(s);
+
+  it("encodes bytes and detects MIME types from content, then file name", () => {
+    const pdf = client
+      .renderHtml("x")
+      .pdfAttach("logo", png)
+      .pdfAttach("report", text("%PDF-1.7\n").buffer)
+      .pdfAttach("invoice", toBase64(text('<?xml version="1.0"?><a/>')))
+      .pdfAttach("data.json", text("{}"))
+      .pdfAttach("blob.bin", text("??"), { mimeType: "application/x-custom" })
+      .pdfAttach("unknown", text("??"))
+      .pdfWatermarkImage(png)
+      .buildPayload().pdf;
+    assert.deepEqual(
+      pdf?.embedded_files?.map((f) => f.mime_type),
+      ["image/png", "application/pdf", "application/xml", "application/json", "application/x-custom", undefined],
+    );
+    assert.equal(pdf?.embedded_files?.[0].data, toBase64(png));
+    assert.equal(pdf?.watermark?.image_data, toBase64(png));
+    assert.equal(detectMimeType(text('<!-- logo --><svg xmlns="http://www.w3.org/2000/svg"/>')), "image/svg+xml");
+    assert.equal(detectMimeType(text("RIFF\0\0\0\0WEBPVP8 ")), "image/webp");
+  });
+
+  it("reads Blobs and files on resolve() and before sending", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "forge-binary-"));
+    try {
+      await writeFile(join(dir, "cert.p12"), new Uint8Array([0x30, 0x82, 1, 2]));
+      const builder = client
+        .renderHtml("x")
+        .pdfSignCertificate({ path: join(dir, "cert.p12") })
+        .pdfAttach("logo.png", new Blob([png]))
+        .pdfAddWatermark({ image: new Blob([png]), layer: "under" })
+        .pdfWatermarkImage(new Blob([text("old")]))
+        .pdfWatermarkImage(png);
+      assert.throws(() => builder.buildPayload(), /await resolve\(\) first/);
+
+      const pdf = (await builder.resolve()).buildPayload().pdf;
+      assert.equal(pdf?.signature?.certificate_data, "MIIBAg==");
+      assert.deepEqual(pdf?.embedded_files, [{ path: "logo.png", data: toBase64(png), mime_type: "image/png" }]);
+      assert.deepEqual(pdf?.watermarks, [{ layer: "under", image_data: toBase64(png) }]);
+      assert.equal(pdf?.watermark?.image_data, toBase64(png));
+
+      let received: RenderPayload | undefined;
+      await withServer(
+        (req, res) => {
+          let body = "";
+          req.on("data", (c) => (body += c));
+          req.on("end", () => {
+            received = JSON.parse(body) as RenderPayload;
+            res.end("%PDF");
+          });
+        },
+        async (baseUrl) => {
+          await new ForgeClient(baseUrl).renderHtml("x").pdfAttach("a.png", { path: join(dir, "cert.p12") }).send();
+        },
+      );
+      assert.equal(received?.pdf?.embedded_files?.[0].data, "MIIBAg==");
+
+      await assert.rejects(
+        client.renderHtml("x").pdfAttach("gone", { path: join(dir, "missing.bin") }).send(),
+        /cannot read .*missing\.bin/,
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("enforces upload limits before sending", async () => {
+    const limited = new ForgeClient("http://127.0.0.1:1", { uploadLimits: { attachment: 8, watermarkImage: 100 } });
+    await assert.rejects(
+      limited.renderHtml("x").pdfAttach("a.bin", new Uint8Array(9)).pdfAttach("b.bin", new Uint8Array(8)).pdfWatermarkImage(png).send(),
+      (err: unknown) => {
+        assert.ok(err instanceof ForgeValidationError);
+        assert.deepEqual(err.issues.map((i) => `${i.path}:${i.rule}`), ["pdf.embedded_files[0].data:range"]);
+        return true;
+      },
+    );
+  });
+});
+
+describe("parseWarnings", () => {
+  const parse = (...values: string[]) => {
+    const headers = new Headers();
+    for (const v of values) headers.append("X-Forge-Warning", v);
+    return parseWarnings(headers);
+  };
+
+  it("returns no warnings without the header", () => {
+    assert.deepEqual(parse(), []);
+  });
+
+  it("splits multiple values and reads [code] prefixes", () => {
+    assert.deepEqual(parse("[flex-wrap-unsupported] flex-wrap is ignored", "grid is approximated"), [
+      { code: "flex-wrap-unsupported", message: "flex-wrap is ignored" },
+      { message: "grid is approximated" },
+    ]);
+  });
+
+  it("keeps commas inside quoted values", () => {
+    assert.deepEqual(parse('"[font-fallback] fonts a, b, c not found"', "second"), [
+      { code: "font-fallback", message: "fonts a, b, c not found" },
+      { message: "second" },
+    ]);
+  });
+
+  it("splits after an unbalanced bracket in plain text", () => {
+    assert.deepEqual(parse("selector a[href unsupported", "[css] b{ ignored", "third"), [
+      { message: "selector a[href unsupported" },
+      { code: "css", message: "b{ ignored" },
+      { message: "third" },
+    ]);
+  });
+
+  it("parses the JSON format", () => {
+    const json = JSON.stringify([
+      { code: "gap-unsupported", message: "gap, row-gap ignored", property: "gap", selector: ".row", line: 12, column: 3, source: "inline" },
+    ]);
+    assert.deepEqual(parse(json, '{"message":"plain"}'), [
+      {
+        code: "gap-unsupported",
+        message: "gap, row-gap ignored",
+        property: "gap",
+        selector: ".row",
+        location: { line: 12, column: 3, source: "inline" },
+      },
+      { message: "plain" },
+    ]);
+  });
+});
+
+describe("RenderJob", () => {
+  /** Mock job server: each job completes after `pollsUntilDone` status polls. */
+  function jobServer(pollsUntilDone: number, finalState: JobState = "completed") {
+    const jobs = new Map<string, { polls: number; state: JobState }>();
+    let nextId = 1;
+    return (req: IncomingMessage, res: ServerResponse) => {
+      const json = (status: number, body: unknown) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body));
+      };
+      req.resume();
+      req.on("end", () => {
+        const m = /^\/render\/jobs(?:\/([^/]+))?(\/result)?$/.exec(req.url ?? "");
+        if (!m) return json(404, { error: "not found" });
+        if (req.method === "POST" && !m[1]) {
+          const id = `job-${nextId++}`;
+          jobs.set(id, { polls: 0, state: "queued" });
+          return json(202, { id, status: "queued" });
+        }
+        const job = jobs.get(m[1]);
+        if (!job) return json(404, { error: "unknown job" });
+        if (req.method === "DELETE") {
+          job.state = "cancelled";
+          return json(200, { id: m[1], status: job.state });
+        }
+        if (m[2]) {
+          res.writeHead(200, { "X-Forge-Warning": "[slow] large document" });
+          return res.end("%PDF");
+        }
+        if (job.state !== "cancelled") {
+          job.polls++;
+          job.state = job.polls >= pollsUntilDone ? finalState : "running";
+        }
+        json(200, {
+          id: m[1],
+          status: job.state,
+          progress: Math.min(1, job.polls / pollsUntilDone),
+          ...(job.state === "failed" ? { error: "out of memory" } : {}),
+        });
+      });
+    };
+  }
+
+  it("submits, waits with polling, and fetches the result", async () => {
+    await withServer(jobServer(3), async (baseUrl) => {
+      const client = new ForgeClient(baseUrl);
+      const job = await client.renderUrl("https://example.com").submit();
+      assert.equal(job.id, "job-1");
+      const states: string[] = [];
+      const final = await job.wait({ pollInterval: 1, onStatus: (s) => states.push(s.state) });
+      assert.deepEqual(states, ["running", "running", "completed"]);
+      assert.equal(final.progress, 1);
+      const result = await job.result();
+      assert.equal(new TextDecoder().decode(result.data), "%PDF");
+      assert.deepEqual(result.warnings, [{ code: "slow", message: "large document" }]);
+    });
+  });
+
+  it("resumes from a saved job id", async () => {
+    await withServer(jobServer(1), async (baseUrl) => {
+      const { id } = await new ForgeClient(baseUrl).renderHtml("<p>x</p>").submit();
+      const resumed = new ForgeClient(baseUrl).job(id);
+      assert.equal((await resumed.wait({ pollInterval: 1 })).state, "completed");
+    });
+  });
+
+  it("retries status polls and result downloads", async () => {
+    await withMockServer(async (server) => {
+      let failures = 2;
+      server.on("GET", /^\/render\/jobs\//, () => (failures-- > 0 ? { status: 503, error: "busy" } : undefined));
+      const client = new ForgeClient(server.url, { retry: { baseDelay: 1 } });
+      const job = await client.renderHtml("<p>x</p>").submit();
+      assert.equal((await job.wait({ pollInterval: 1 })).state, "completed");
+      failures = 1;
+      assert.deepEqual((await job.result()).data, MOCK_PDF);
+    });
+  });
+
+  it("throws ForgeJobError for failed and cancelled jobs", async () => {
+    await withServer(jobServer(1, "failed"), async (baseUrl) => {
+      const job = await new ForgeClient(baseUrl).renderHtml("<p>x</p>").submit();
+      await assert.rejects(job.wait({ pollInterval: 1 }), (err: unknown) => {
+        assert.ok(err instanceof ForgeJobError);
+        assert.equal(err.state, "failed");
+        assert.equal(err.message, `job ${job.id} failed: out of memory`);
+        return true;
+      });
+    });
+    await withServer(jobServer(5), async (baseUrl) => {
+      const job = await new ForgeClient(baseUrl).renderHtml("<p>x</p>").submit();
+      await job.cancel();
+      await assert.rejects(job.wait({ pollInterval: 1 }), { name: "ForgeJobError", state: "cancelled" });
+    });
+  });
+
+  it("stops waiting when the signal aborts", async () => {
+    await withServer(jobServer(1000), async (baseUrl) => {
+      const job = await new ForgeClient(baseUrl).renderHtml("<p>x</p>").submit();
+      await assert.rejects(
+        job.wait({ pollInterval: 5, signal: AbortSignal.timeout(30) }),
+        ForgeAbortError,
+      );
+    });
+  });
+});
+
+describe("assets", () => {
+  const client = new ForgeClient("http://localhost:3000");
+  const bytes = (text: string) => new TextEncoder().encode(text);
+  const html =
+    '<link rel="stylesheet" href="./css/style.css"><img src="img/logo.png?v=2" srcset="img/logo@2x.png 2x">' +
+    '<img src="https://cdn.example.com/x.png"><img src="data:image/png;base64,AA==">';
+
+  it("finds relative references in HTML", () => {
+    assert.deepEqual(findAssetReferences(html), ["css/style.css", "img/logo.png", "img/logo@2x.png"]);
+  });
+
+  it("reports missing assets, including those referenced from CSS", () => {
+    const missing = missingAssets(html, {
+      "css/style.css": { data: bytes("@font-face { src: url('../fonts/inter.woff2'); }") },
+      "img/logo.png": { data: bytes("png") },
+    });
+    assert.deepEqual(missing, ["img/logo@2x.png", "fonts/inter.woff2"]);
+  });
+
+  it("bundles assets as base64 with guessed MIME types", () => {
+    const payload = client
+      .renderHtml(html)
+      .asset("css/style.css", bytes("body{}"))
+      .assets({ "img/logo.png": { data: bytes("png"), mimeType: "image/png" }, "img/logo@2x.png": bytes("png2") })
+      .buildPayload();
+    assert.deepEqual(payload.assets, [
+      { path: "css/style.css", data: "Ym9keXt9", mime_type: "text/css" },
+      { path: "img/logo.png", data: "cG5n", mime_type: "image/png" },
+      { path: "img/logo@2x.png", data: "cG5nMg==", mime_type: "image/png" },
+    ]);
+    assert.deepEqual(client.renderHtml("<p>x</p>").buildPayload().assets, undefined);
+  });
+
+  it("flags missing assets during validation", () => {
+    const issues = client.renderHtml(html).asset("css/style.css", bytes("body{}")).validate();
+    assert.deepEqual(
+      issues.map((i) => `${i.path}:${i.rule}:${i.message}`),
+      [
+        'assets:required:"img/logo.png" is referenced but not attached',
+        'assets:required:"img/logo@2x.png" is referenced but not attached',
+      ],
+    );
+  });
+
+  it("loads a directory of assets", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "forge-assets-"));
+    try {
+      await mkdir(join(dir, "css"));
+      await writeFile(join(dir, "css", "style.css"), "body{}");
+      await writeFile(join(dir, "logo.png"), "png");
+      const assets = await loadAssetDirectory(dir);
+      assert.deepEqual(Object.keys(assets).sort(), ["css/style.css", "logo.png"]);
+      assert.equal(new TextDecoder().decode(assets["css/style.css"].data), "body{}");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("templates", () => {
+  const render = (source: string, data: unknown, partials: Record<string, string> = {}) =>
+    builtinTemplateEngine.render(source, data, partials);
+
+  it("interpolates with HTML escaping", () => {
+    assert.equal(render("<h1>{{ title }}</h1>", { title: "A & <B>" }), "<h1>A &amp; &lt;B&gt;</h1>");
+    assert.equal(render("{{{ html }}}", { html: "<b>x</b>" }), "<b>x</b>");
+    assert.equal(render("{{customer.name}}{{missing}}{{! note }}", { customer: { name: "Acme" } }), "Acme");
+  });
+
+  it("renders loops and conditionals", () => {
+    const source =
+      "{{#each items}}{{@index}}:{{name}}={{../currency}}{{price}}{{#unless @last}}, {{/unless}}{{else}}none{{/each}}" +
+      "{{#if paid}} PAID{{else}} DUE{{/if}}";
+    const data = { currency: "€", paid: false, items: [{ name: "a", price: 1 }, { name: "b", price: 2 }] };
+    assert.equal(render(source, data), "0:a=€1, 1:b=€2 DUE");
+    assert.equal(render(source, { items: [], paid: true }), "none PAID");
+  });
+
+  it("resolves outer scope and partials", () => {
+    const partials = { line: "<li>{{this}} ({{currency}})</li>" };
+    assert.equal(
+      render("<ul>{{#each tags}}{{> line}}{{/each}}</ul>", { currency: "USD", tags: ["x", "y"] }, partials),
+      "<ul><li>x (USD)</li><li>y (USD)</li></ul>",
+    );
+  });
+
+  it("resolves only own properties", () => {
+    assert.equal(render("[{{constructor}}{{toString}}{{a.__proto__}}{{@constructor}}]", { a: {} }), "[]");
+    assert.equal(render("{{#each items}}{{hasOwnProperty}}{{/each}}{{items.length}}", { items: [{}] }), "1");
+  });
+
+  it("reports malformed templates", () => {
+    assert.throws(() => render("{{#if a}}x", {}), /unclosed "#if" from line 1/);
+    assert.throws(() => render("{{#each a}}{{/if}}", {}), ForgeTemplateError);
+    assert.throws(() => render("{{> nope}}", {}), /unknown partial "nope"/);
+  });
+
+  it("renders registered templates with default settings", () => {
+    const client = new ForgeClient("http://localhost:3000")
+      .registerPartial("footer", "<footer>{{company}}</footer>")
+      .registerTemplate("invoice", {
+        source: "<h1>Invoice {{number}}</h1>{{> footer}}",
+        defaults: (b) => b.paper("a4").margins("narrow").pdfTitle("Invoice"),
+      });
+    const payload = client
+      .renderTemplate("invoice", { number: 42, company: "Centrix" })
+      .pdfTitle("Invoice 42")
+      .buildPayload();
+    assert.equal(payload.html, "<h1>Invoice 42</h1><footer>Centrix</footer>");
+    assert.equal(payload.paper, "a4");
+    assert.equal(payload.margins, "narrow");
+    assert.equal(payload.pdf?.title, "Invoice 42");
+    assert.throws(() => client.renderTemplate("missing", {}), ForgeTemplateError);
+    const withPreset = client.renderTemplate({ source: "x", defaults: { paper: "letter" } }, {});
+    assert.equal(withPreset.buildPayload().paper, "letter");
+  });
+
+  it("accepts a custom engine", () => {
+    const upper = { render: (source: string) => source.toUpperCase() };
+    const client = new ForgeClient("http://localhost:3000", { templateEngine: upper });
+    assert.equal(client.renderTemplate({ source: "<p>hi</p>" }, {}).buildPayload().html, "<P>HI</P>");
+  });
+});
+
+describe("presets", () => {
+  const client = new ForgeClient("http://localhost:3000");
+  const base = {
+    paper: "a4",
+    margins: "default",
+    pdfCreator: "Centrix ERP",
+    pdfBarcodes: [{ type: "qr", data: "base" }],
+  };
+  const tenant = {
+    margins: "narrow",
+    pdfAuthor: "Tenant GmbH",
+    pdfBarcodes: [{ type: "code128", data: "tenant" }],
+  };
+
+  it("merges layers: later values win, lists are appended", () => {
+    assert.deepEqual(mergePresets(base, tenant), {
+      paper: "a4",
+      margins: "narrow",
+      pdfCreator: "Centrix ERP",
+      pdfAuthor: "Tenant GmbH",
+      pdfBarcodes: [
+        { type: "qr", data: "base" },
+        { type: "code128", data: "tenant" },
+      ],
+    });
+  });
+
+  it("round-trips through JSON and rejects unknown keys", () => {
+    const preset = client.renderHtml("<p>x</p>").paper("letter").palette(["#000", "#fff"]).pdfBarcode(BarcodeType.Ean8, "1234567").toPreset();
+    assert.deepEqual(parsePreset(JSON.stringify(preset)), preset);
+    assert.throws(() => parsePreset('{"papr":"a4"}'), (err: unknown) => {
+      assert.ok(err instanceof ForgeValidationError);
+      assert.deepEqual(err.issues.map((i) => `${i.path}:${i.rule}`), ["papr:unknown"]);
+      return true;
+    });
+  });
+
+  it("layers client defaults, tenant defaults and per-request overrides", () => {
+    const tenantClient = client.withDefaults(base).withDefaults(tenant);
+    const payload = tenantClient.renderHtml("<p>x</p>").paper("letter").buildPayload();
+    assert.equal(payload.paper, "letter");
+    assert.equal(payload.margins, "narrow");
+    assert.equal(payload.pdf?.creator, "Centrix ERP");
+    assert.deepEqual(payload.pdf?.barcodes?.map((b) => b.data), ["base", "tenant"]);
+    assert.equal(client.renderHtml("<p>x</p>").buildPayload().paper, undefined);
+  });
+
+  it("clones builders independently", async () => {
+    const original = client.renderHtml("<p>x</p>").paper("a4").pdfBarcode(BarcodeType.Qr, "one");
+    const copy = original.clone().paper("a5").pdfBarcode(BarcodeType.Qr, "two");
+    assert.deepEqual(original.buildPayload().pdf?.barcodes?.length, 1);
+    assert.equal(original.buildPayload().paper, "a4");
+    assert.equal(copy.buildPayload().html, "<p>x</p>");
+    assert.equal(copy.buildPayload().paper, "a5");
+    assert.equal(copy.buildPayload().pdf?.barcodes?.length, 2);
+
+    await withMockServer(async (server) => {
+      const cached = new ForgeClient(server.url, { cache: { store: new MemoryCacheStore() } });
+      await cached.renderHtml("<p>x</p>").send();
+      await cached.renderHtml("<p>x</p>").bypassCache().clone().send();
+      server.assertRequestCount(2, "/render");
+    });
+  });
+});
+
+describe("middleware", () => {
+  /** Server that echoes selected request headers and the received payload. */
+  const inspect = (req: IncomingMessage, res: ServerResponse) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          auth: req.headers["authorization"] ?? null,
+          key: req.headers["x-api-key"] ?? null,
+          payload: body ? JSON.parse(body) : null,
+        }),
+      );
+    });
+  };
+  const decode = (data: Uint8Array) => JSON.parse(new TextDecoder().decode(data));
+
+  it("adds auth headers and can rewrite the payload", async () => {
+    await withServer(inspect, async (baseUrl) => {
+      const stamp: Middleware = (ctx, next) => {
+        if (ctx.payload) ctx.payload.pdf = { ...ctx.payload.pdf, creator: "middleware" };
+        return next();
+      };
+      const client = new ForgeClient(baseUrl, {
+        middleware: [bearerAuth(async () => "t0ken"), apiKeyAuth("k3y"), stamp],
+      });
+      const echoed = decode(await client.renderHtml("<p>x</p>").send());
+      assert.equal(echoed.auth, "Bearer t0ken");
+      assert.equal(echoed.key, "k3y");
+      assert.equal(echoed.payload.html, "<p>x</p>");
+      assert.equal(echoed.payload.pdf.creator, "middleware");
+    });
+  });
+
+  it("can short-circuit without a request", async () => {
+    const client = new ForgeClient("http://127.0.0.1:1", {
+      middleware: [async () => new Response("cached")],
+    });
+    const data = await client.renderHtml("<p>x</p>").send();
+    assert.equal(new TextDecoder().decode(data), "cached");
+  });
+
+  it("can call next() again to retry", async () => {
+    let calls = 0;
+    await withServer(
+      (_req, res) => {
+        calls++;
+        res.writeHead(calls === 1 ? 503 : 200);
+        res.end("ok");
+      },
+      async (baseUrl) => {
+        const retryOnce: Middleware = async (_ctx, next) => {
+          const resp = await next();
+          return resp.status === 503 ? next() : resp;
+        };
+        await new ForgeClient(baseUrl, { middleware: [retryOnce] }).renderHtml("").send();
+      },
+    );
+    assert.equal(calls, 2);
+  });
+
+  it("logs attempts with a redacted payload", async () => {
+    await withServer(inspect, async (baseUrl) => {
+      const entries: RequestLogEntry[] = [];
+      const client = new ForgeClient(baseUrl, {
+        middleware: [logging({ includePayload: true, log: (_msg, e) => entries.push(e) })],
+      });
+      await client
+        .renderHtml("<p>secret</p>")
+        .pdfUserPassword("hunter2")
+        .pdfAddWatermark({ text: "DRAFT" })
+        .pdfAddWatermark({ image: new Uint8Array([0x89, 0x50]) })
+        .send();
+      assert.equal(entries.length, 1);
+      assert.equal(entries[0].status, 200);
+      assert.equal(entries[0].path, "/render");
+      assert.deepEqual(entries[0].payload, {
+        format: "pdf",
+        html: "[13 chars]",
+        pdf: {
+          encryption: { user_password: "[redacted]" },
+          watermarks: [{ text: "DRAFT" }, { image_data: "[redacted]" }],
+        },
+      });
+    });
+  });
+});
+
+describe("cancellation", () => {
+  /** Server that sends headers and a first chunk, then never finishes the body. */
+  const hang = (req: IncomingMessage, res: ServerResponse) => {
+    req.resume();
+    if (req.url === "/render") {
+      res.writeHead(200);
+      res.write("partial");
+    }
+  };
+
+  it("reports a timeout as ForgeTimeoutError", async () => {
+    await withServer(
+      (req) => req.resume(),
+      async (baseUrl) => {
+        const client = new ForgeClient(baseUrl, { timeout: 60_000 });
+        await assert.rejects(client.renderHtml("<p>x</p>").send({ timeout: 20 }), (err: unknown) => {
+          assert.ok(err instanceof ForgeTimeoutError);
+          assert.ok(err instanceof ForgeConnectionError);
+          assert.equal(err.timeout, 20);
+          return true;
+        });
+      },
+    );
+  });
+
+  it("aborts a pending request with ForgeAbortError", async () => {
+    await withServer(
+      (req) => req.resume(),
+      async (baseUrl) => {
+        const controller = new AbortController();
+        const pending = new ForgeClient(baseUrl).renderHtml("<p>x</p>").send({ signal: controller.signal });
+        setTimeout(() => controller.abort("user left"), 10);
+        await assert.rejects(pending, (err: unknown) => {
+          assert.ok(err instanceof ForgeAbortError);
+          assert.equal(err.reason, "user left");
+          return true;
+        });
+        await assert.rejects(
+          new ForgeClient(baseUrl).renderHtml("").send({ signal: AbortSignal.abort() }),
+          ForgeAbortError,
+        );
+      },
+    );
+  });
+
+  it("aborts while reading the body and while streaming", async () => {
+    await withServer(hang, async (baseUrl) => {
+      const client = new ForgeClient(baseUrl);
+      const buffered = new AbortController();
+      const pending = client.renderHtml("<p>x</p>").send({ signal: buffered.signal });
+      setTimeout(() => buffered.abort(), 20);
+      await assert.rejects(pending, ForgeAbortError);
+
+      const streamed = new AbortController();
+      const { body } = await client.renderHtml("<p>x</p>").sendStream({ signal: streamed.signal });
+      const reader = body.getReader();
+      await reader.read();
+      streamed.abort("user left");
+      await assert.rejects(reader.read(), (err: unknown) => {
+        assert.ok(err instanceof ForgeAbortError);
+        assert.equal(err.reason, "user left");
+        return true;
+      });
+    });
+  });
+
+  it("aborts in-flight batch items", async () => {
+    await withServer(
+      (req) => req.resume(),
+      async (baseUrl) => {
+        const client = new ForgeClient(baseUrl);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+        const results = await client.renderBatch(
+          ["a", "b", "c"].map((h) => client.renderHtml(h)),
+          { concurrency: 2, signal: controller.signal },
+        );
+        assert.ok(results.every((r) => !r.ok && r.error instanceof ForgeAbortError));
+      },
+    );
+  });
+
+  it("detaches from the signal once outputs are read", async () => {
+    await withMockServer(async (server) => {
+      const client = new ForgeClient(server.url);
+      const controller = new AbortController();
+      const results = await client.renderBatch(
+        Array.from({ length: 15 }, (_, i) => client.renderHtml(`<p>${i}</p>`)),
+        { signal: controller.signal },
+      );
+      assert.ok(results.every((r) => r.ok));
+      assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+
+      const { body } = await client.renderHtml("<p>x</p>").sendStream({ signal: controller.signal });
+      assert.equal(getEventListeners(controller.signal, "abort").length, 1);
+      await new Response(body).arrayBuffer();
+      assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+    });
+  });
+});
+
+describe("render cache", () => {
+  const countingServer = () => {
+    const state = { calls: 0 };
+    const handler = (req: IncomingMessage, res: ServerResponse) => {
+      req.resume();
+      state.calls++;
+      res.writeHead(200, { "X-Forge-Warning": "[w] cached warning" });
+      res.end(`render ${state.calls}`);
+    };
+    return { state, handler };
+  };
+  const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+  it("keys on the payload independent of key order", async () => {
+    const a = await cacheKey({ format: "pdf", html: "x", pdf: { title: "t", author: "a" } });
+    const b = await cacheKey({ html: "x", pdf: { author: "a", title: "t" }, format: "pdf" });
+    const c = await cacheKey({ format: "png", html: "x" });
+    assert.equal(a, b);
+    assert.notEqual(a, c);
+    assert.match(a, /^[0-9a-f]{64}$/);
+  });
+
+  it("serves repeated renders from the cache", async () => {
+    const { state, handler } = countingServer();
+    await withServer(handler, async (baseUrl) => {
+      const client = new ForgeClient(baseUrl, { cache: { store: new MemoryCacheStore() } });
+      const first = await client.renderHtml("<p>x</p>").sendWithWarnings();
+      const second = await client.renderHtml("<p>x</p>").sendWithWarnings();
+      assert.equal(text(second.data), "render 1");
+      assert.deepEqual(second.warnings, first.warnings);
+      assert.equal(text(await client.renderHtml("<p>x</p>").bypassCache().send()), "render 2");
+      assert.equal(text(await client.renderHtml("<p>y</p>").send()), "render 3");
+    });
+    assert.equal(state.calls, 3);
+  });
+
+  it("hands out copies that callers may mutate", async () => {
+    const { handler } = countingServer();
+    await withServer(handler, async (baseUrl) => {
+      const client = new ForgeClient(baseUrl, { cache: { store: new MemoryCacheStore() } });
+      const fresh = await client.renderHtml("<p>x</p>").sendWithWarnings();
+      fresh.data.fill(0);
+      fresh.warnings[0].message = "changed";
+      const hit = await client.renderHtml("<p>x</p>").sendWithWarnings();
+      assert.equal(text(hit.data), "render 1");
+      assert.equal(hit.warnings[0].message, "cached warning");
+      hit.data.fill(0);
+      assert.equal(text(await client.renderHtml("<p>x</p>").send()), "render 1");
+    });
+  });
+
+  it("expires entries after the TTL", async () => {
+    const { handler } = countingServer();
+    await withServer(handler, async (baseUrl) => {
+      const client = new ForgeClient(baseUrl, { cache: { store: new MemoryCacheStore(), ttl: 10 } });
+      await client.renderHtml("<p>x</p>").send();
+      await new Promise((r) => setTimeout(r, 20));
+      assert.equal(text(await client.renderHtml("<p>x</p>").send()), "render 2");
+    });
+  });
+
+  it("never caches signed or encrypted documents", async () => {
+    const { state, handler } = countingServer();
+    await withServer(handler, async (baseUrl) => {
+      const client = new ForgeClient(baseUrl, { cache: { store: new MemoryCacheStore() } });
+      for (let i = 0; i < 2; i++) {
+        await client.renderHtml("<p>x</p>").pdfSignName("Alice").send();
+        await client.renderHtml("<p>x</p>").pdfOwnerPassword("secret").send();
+      }
+    });
+    assert.equal(state.calls, 4);
+  });
+
+  it("evicts least recently used entries beyond the byte budget", async () => {
+    const store = new MemoryCacheStore({ maxBytes: 10 });
+    const entry = (n: number) => ({ data: new Uint8Array(n), warnings: [] });
+    await store.set("a", entry(4));
+    await store.set("b", entry(4));
+    await store.get("a");
+    await store.set("c", entry(4));
+    assert.ok(await store.get("a"));
+    assert.equal(await store.get("b"), undefined);
+    assert.equal(store.size, 8);
+  });
+
+  it("persists entries in a directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "forge-cache-"));
+    try {
+      const store = new FileCacheStore(join(dir, "renders"));
+      await store.set("k", { data: new Uint8Array([1, 2, 3]), warnings: [{ message: "w" }], expiresAt: 42 });
+      assert.deepEqual(await store.get("k"), {
+        data: new Uint8Array([1, 2, 3]),
+        warnings: [{ message: "w" }],
+        expiresAt: 42,
+      });
+      await store.delete("k");
+      assert.equal(await store.get("k"), undefined);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("cli", () => {
+  const capture = (env: Record<string, string> = {}) => {
+    const out: (string | Uint8Array)[] = [];
+    const err: string[] = [];
+    const io: CliIo = {
+      stdout: { write: (c) => out.push(c) },
+      stderr: { write: (c) => err.push(c) },
+      env,
+    };
+    return { io, out, err };
+  };
+
+  it("maps flags onto the builder in --dry-run", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "forge-cli-"));
+    try {
+      await writeFile(join(dir, "in.html"), "<h1>Hi</h1>");
+      await writeFile(join(dir, "preset.json"), JSON.stringify({ paper: "letter", pdfCreator: "ERP" }));
+      await writeFile(join(dir, "logo.png"), new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+      await writeFile(join(dir, "cert.p12"), new Uint8Array([0x30, 0x82]));
+      const { io, out } = capture();
+      const code = await main(
+        [
+          "render", join(dir, "in.html"), "--dry-run",
+          "--preset", join(dir, "preset.json"),
+          "--paper", "a4", "--colors", "8", "--pdf-bookmarks",
+          "--pdf-watermark-text", "DRAFT", "--pdf-barcode", "qr:https://example.com/1",
+          "--pdf-watermark-image", join(dir, "logo.png"), "--pdf-sign-certificate", join(dir, "cert.p12"),
+        ],
+        io,
+      );
+      assert.equal(code, ExitCode.Ok);
+      assert.deepEqual(JSON.parse(out.join("")), {
+        format: "pdf",
+        html: "<h1>Hi</h1>",
+        paper: "a4",
+        quantize: { colors: 8 },
+        pdf: {
+          creator: "ERP",
+          bookmarks: true,
+          watermark: { text: "DRAFT", image_data: toBase64(new Uint8Array([0x89, 0x50, 0x4e, 0x47])) },
+          barcodes: [{ type: "qr", data: "https://example.com/1" }],
+          signature: { certificate_data: toBase64(new Uint8Array([0x30, 0x82])) },
+        },
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects bad usage with exit code 2", async () => {
+    assert.equal(await main(["render"], capture().io), ExitCode.Usage);
+    assert.equal(await main(["render", "x.html", "--colors", "many"], capture().io), ExitCode.Usage);
+    assert.equal(await main(["render", "x.html", "--no-such-flag"], capture().io), ExitCode.Usage);
+    const concurrency = capture();
+    assert.equal(await main(["batch", "*.html", "--concurrency", "abc"], concurrency.io), ExitCode.Usage);
+    assert.match(concurrency.err.join(""), /--concurrency expects a positive integer, got "abc"/);
+    const barcode = capture();
+    assert.equal(await main(["render", "x.html", "--pdf-barcode", "{bad"], barcode.io), ExitCode.Usage);
+    assert.match(barcode.err.join(""), /--pdf-barcode has invalid JSON/);
+  });
+
+  it("renders, reports warnings and server errors with exit codes", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "forge-cli-"));
+    try {
+      await mkdir(join(dir, "docs"));
+      await writeFile(join(dir, "docs", "a.html"), "ok");
+      await writeFile(join(dir, "docs", "b.html"), "fail");
+      await withServer(
+        (req, res) => {
+          let body = "";
+          req.on("data", (c) => (body += c));
+          req.on("end", () => {
+            if (req.url === "/health") return res.end();
+            if ((JSON.parse(body) as { html: string }).html === "fail") {
+              res.writeHead(500, { "Content-Type": "application/json" });
+              return res.end(JSON.stringify({ error: "boom" }));
+            }
+            res.writeHead(200, { "X-Forge-Warning": "[grid] approximated" });
+            res.end("%PDF");
+          });
+        },
+        async (baseUrl) => {
+          const env = { FORGE_URL: baseUrl };
+          const health = capture(env);
+          assert.equal(await main(["health"], health.io), ExitCode.Ok);
+          assert.match(health.out.join(""), /^ok latency=\d+ms\n$/);
+
+          const single = capture(env);
+          const out = join(dir, "a.pdf");
+          assert.equal(await main(["render", join(dir, "docs", "a.html"), "-o", out], single.io), ExitCode.Warnings);
+          assert.equal(await readFile(out, "utf8"), "%PDF");
+          assert.match(single.err.join(""), /warning: .*a\.html: \[grid\] approximated/);
+          assert.equal(
+            await main(["render", join(dir, "docs", "a.html"), "-o", out, "--ignore-warnings"], capture(env).io),
+            ExitCode.Ok,
+          );
+
+          const batch = capture(env);
+          const code = await main(["batch", `${dir}/docs/*.html`, "-o", join(dir, "out")], batch.io);
+          assert.equal(code, ExitCode.Error);
+          assert.equal(await readFile(join(dir, "out", "a.pdf"), "utf8"), "%PDF");
+          assert.match(batch.err.join(""), /error: .*b\.html: server error \(500\): boom/);
+        },
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("expands globs", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "forge-glob-"));
+    try {
+      await mkdir(join(dir, "a", "b"), { recursive: true });
+      await writeFile(join(dir, "top.html"), "");
+      await writeFile(join(dir, "a", "b", "deep.html"), "");
+      await writeFile(join(dir, "a", "skip.txt"), "");
+      assert.deepEqual(await expandGlob(`${dir}/*.html`), [`${dir}/top.html`]);
+      assert.deepEqual(await expandGlob(`${dir}/**/*.html`), [`${dir}/a/b/deep.html`, `${dir}/top.html`]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,391 @@
+import { AssertionError } from "node:assert";
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { API_VERSION } from "./capabilities.js";
+import type { ForgeWarning, RenderPayload, ServerInfoResponse } from "./types.js";
+
+/** Bytes returned for PDF renders. */
+export const MOCK_PDF: Uint8Array = new TextEncoder().encode("%PDF-1.7\n%mock\n%%EOF\n");
+
+/** Bytes returned for raster renders and PNG barcodes: a 1x1 transparent PNG. */
+export const MOCK_PNG: Uint8Array = Uint8Array.from(
+  atob("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=="),
+  (c) => c.charCodeAt(0),
+);
+
+/** Bytes returned for SVG renders and barcodes. */
+export const MOCK_SVG: Uint8Array = new TextEncoder().encode(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="1" height="1"/>',
+);
+
+/** Version reported by `/health` and `/info`. */
+export const MOCK_VERSION = "0.0.0-mock";
+
+/** A request received by MockForgeServer. */
+export interface MockRequest {
+  method: string;
+  /** Path including any query string, e.g. "/render". */
+  path: string;
+  /** Request headers with lower-case names. */
+  headers: Record<string, string>;
+  /** Parsed JSON body, or the raw text if it is not JSON; undefined when empty. */
+  body?: unknown;
+}
+
+/**
+ * A scripted response. Unset fields fall back to the default response for
+ * the route, so `{ warnings: ["..."] }` still returns the canned document.
+ */
+export interface MockResponse {
+  /** HTTP status (default: 200, or 500 with `error`). */
+  status?: number;
+  /** Response body; objects are sent as JSON. */
+  body?: string | Uint8Array | object;
+  /** Content-Type header (default: derived from the body). */
+  contentType?: string;
+  /** Extra response headers. */
+  headers?: Record<string, string>;
+  /** Sent as one `X-Forge-Warning` header each; objects are JSON-encoded. */
+  warnings?: (string | ForgeWarning)[];
+  /** Error message, sent as `{ "error": ... }`. */
+  error?: string;
+  /** Milliseconds to wait before sending the status line. */
+  delay?: number;
+  /** Split the body into `chunkSize`-byte chunks sent this many milliseconds apart. */
+  chunkDelay?: number;
+  /** Chunk size for `chunkDelay` (default: 1). */
+  chunkSize?: number;
+  /** Never respond, so the client times out. */
+  hang?: boolean;
+  /** Close the connection without responding. */
+  drop?: boolean;
+}
+
+/**
+ * Computes a response for a request; return undefined to fall through to the
+ * default. If it throws, the client gets a 500 with the error message.
+ */
+export type MockHandler = (req: MockRequest) => MockResponse | undefined | Promise<MockResponse | undefined>;
+
+interface Route {
+  method: string;
+  path: string | RegExp;
+  handler: MockHandler;
+}
+
+/** Canned bytes and Content-Type for an output format. */
+function cannedOutput(format: string | undefined): { body: Uint8Array; contentType: string } {
+  if (format === undefined || format === "pdf") return { body: MOCK_PDF, contentType: "application/pdf" };
+  if (format === "svg") return { body: MOCK_SVG, contentType: "image/svg+xml" };
+  return { body: MOCK_PNG, contentType: "image/png" };
+}
+
+/** Warning in the wire format parsed by the client. */
+function encodeWarning(warning: string | ForgeWarning): string {
+  if (typeof warning === "string") return JSON.stringify(warning);
+  const { location, ...rest } = warning;
+  return JSON.stringify({ ...rest, ...location });
+}
+
+/** First path in `expected` where `actual` differs; every other key of `actual` is ignored. */
+function mismatch(actual: unknown, expected: unknown, path: string): string | undefined {
+  if (expected === null || typeof expected !== "object") {
+    return Object.is(actual, expected) ? undefined : path || "<root>";
+  }
+  if (actual === null || typeof actual !== "object") return path || "<root>";
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) return path || "<root>";
+    for (let i = 0; i < expected.length; i++) {
+      const found = mismatch(actual[i], expected[i], `${path}[${i}]`);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  for (const [key, value] of Object.entries(expected)) {
+    const found = mismatch((actual as Record<string, unknown>)[key], value, path ? `${path}.${key}` : key);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/** Deep partial of a payload, as accepted by `assertRendered()`. */
+export type PayloadMatcher = { [K in keyof RenderPayload]?: unknown } | ((payload: RenderPayload) => boolean);
+
+/**
+ * In-process HTTP server that speaks the Forge API, for testing code that
+ * uses ForgeClient without a Forge instance. It records every request and
+ * answers `/health`, `/info`, `/render`, `/barcode` and `/render/jobs` with
+ * canned output; `enqueue()` and `on()` script other responses, including
+ * errors, delays, timeouts and slow streams.
+ *
+ * ```ts
+ * const server = await MockForgeServer.start();
+ * const client = new ForgeClient(server.url);
+ * server.enqueue({ warnings: ["flex-wrap unsupported"] });
+ * await client.renderHtml("<h1>Hi</h1>").sendWithWarnings();
+ * server.assertRendered({ html: "<h1>Hi</h1>" });
+ * await server.close();
+ * ```
+ */
+export class MockForgeServer {
+  /** Every request received, in order. */
+  readonly requests: MockRequest[] = [];
+
+  private readonly server: Server;
+  private readonly routes: Route[] = [];
+  private readonly queue: MockResponse[] = [];
+  private readonly jobs = new Map<string, { payload: RenderPayload; cancelled: boolean }>();
+  private readonly timers = new Set<ReturnType<typeof setTimeout>>();
+  private nextJob = 1;
+  private _url = "";
+
+  private constructor() {
+    this.server = createServer((req, res) => this.handle(req, res));
+  }
+
+  /** Start a server on a random local port. */
+  static async start(): Promise<MockForgeServer> {
+    const mock = new MockForgeServer();
+    await new Promise<void>((resolve) => mock.server.listen(0, "127.0.0.1", resolve));
+    const { port } = mock.server.address() as AddressInfo;
+    mock._url = `http://127.0.0.1:${port}`;
+    return mock;
+  }
+
+  /** Base URL to pass to ForgeClient. */
+  get url(): string {
+    return this._url;
+  }
+
+  /** Render payloads received by `/render` and `/render/jobs`, in order. */
+  get payloads(): RenderPayload[] {
+    return this.requests
+      .filter((r) => r.method === "POST" && (r.path === "/render" || r.path === "/render/jobs"))
+      .map((r) => r.body as RenderPayload);
+  }
+
+  /** The most recent render payload; throws if nothing was rendered. */
+  lastPayload(): RenderPayload {
+    const payloads = this.payloads;
+    if (payloads.length === 0) throw new AssertionError({ message: "no render request was received" });
+    return payloads[payloads.length - 1];
+  }
+
+  /**
+   * Answer the next POST requests (renders, barcodes, job submissions) with
+   * these responses, one each, before falling back to the defaults.
+   */
+  enqueue(...responses: MockResponse[]): this {
+    this.queue.push(...responses);
+    return this;
+  }
+
+  /**
+   * Answer requests to `path` (exact, or a RegExp tested against the path)
+   * with a fixed response or a handler. Routes are tried in the order added
+   * and take precedence over `enqueue()`.
+   */
+  on(method: string, path: string | RegExp, response: MockResponse | MockHandler): this {
+    const handler = typeof response === "function" ? response : () => response;
+    this.routes.push({ method: method.toUpperCase(), path, handler });
+    return this;
+  }
+
+  /**
+   * Assert that at least one render payload matches `expected`: a predicate,
+   * or a deep partial object where arrays must match element by element.
+   */
+  assertRendered(expected: PayloadMatcher, message?: string): void {
+    const payloads = this.payloads;
+    const test =
+      typeof expected === "function" ? expected : (p: RenderPayload) => mismatch(p, expected, "") === undefined;
+    if (payloads.some(test)) return;
+    let detail = "no render request was received";
+    if (payloads.length > 0) {
+      const last = payloads[payloads.length - 1];
+      detail =
+        typeof expected === "function"
+          ? `none of ${payloads.length} render payloads matched the predicate`
+          : `none of ${payloads.length} render payloads matched; the last differs at ${mismatch(last, expected, "")}`;
+    }
+    throw new AssertionError({
+      message: message ?? detail,
+      actual: payloads[payloads.length - 1],
+      expected,
+      operator: "assertRendered",
+    });
+  }
+
+  /** Assert the number of requests received, optionally only those to `path`. */
+  assertRequestCount(count: number, path?: string): void {
+    const actual = this.requests.filter((r) => path === undefined || r.path === path).length;
+    if (actual === count) return;
+    throw new AssertionError({
+      message: `expected ${count} request${count === 1 ? "" : "s"}${path ? ` to ${path}` : ""}, got ${actual}`,
+      actual,
+      expected: count,
+      operator: "assertRequestCount",
+    });
+  }
+
+  /** Forget recorded requests, routes, queued responses and jobs. */
+  reset(): void {
+    this.requests.length = 0;
+    this.routes.length = 0;
+    this.queue.length = 0;
+    this.jobs.clear();
+  }
+
+  /** Stop the server, dropping hanging and streaming responses. */
+  async close(): Promise<void> {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      await this.serve(req, res);
+    } catch (e) {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: e instanceof Error ? e.message : String(e) }));
+    }
+  }
+
+  private async serve(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString("utf8");
+    let body: unknown;
+    if (text !== "") {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    }
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(", ") : value;
+    }
+    const request: MockRequest = { method: req.method ?? "GET", path: req.url ?? "/", headers, body };
+    this.requests.push(request);
+
+    let scripted: MockResponse | undefined;
+    for (const route of this.routes) {
+      const matches = typeof route.path === "string" ? route.path === request.path : route.path.test(request.path);
+      if (route.method === request.method && matches) {
+        scripted = await route.handler(request);
+        if (scripted) break;
+      }
+    }
+    if (!scripted && request.method === "POST") scripted = this.queue.shift();
+
+    const fallback = this.defaultResponse(request);
+    const response: MockResponse = { ...fallback, ...scripted };
+    if (scripted?.error !== undefined || (scripted?.status ?? 200) >= 400) {
+      // A scripted failure replaces the canned document.
+      response.body = scripted?.body;
+      response.contentType = scripted?.contentType;
+    }
+    await this.respond(res, response);
+  }
+
+  private defaultResponse(req: MockRequest): MockResponse {
+    const payload = (req.body ?? {}) as { format?: string };
+    if (req.method === "GET" && req.path === "/health") {
+      return { body: { status: "ok", version: MOCK_VERSION, queue_depth: 0 } };
+    }
+    if (req.method === "GET" && req.path === "/info") {
+      // No capability lists: every feature is allowed unless a test overrides /info.
+      return { body: { version: MOCK_VERSION, api_version: API_VERSION } satisfies ServerInfoResponse };
+    }
+    if (req.method === "POST" && (req.path === "/render" || req.path === "/barcode")) {
+      return cannedOutput(payload.format);
+    }
+    if (req.method === "POST" && req.path === "/render/jobs") {
+      const id = `job-${this.nextJob++}`;
+      this.jobs.set(id, { payload: req.body as RenderPayload, cancelled: false });
+      return { status: 202, body: { id, status: "queued" } };
+    }
+    const m = /^\/render\/jobs\/([^/]+)(\/result)?$/.exec(req.path);
+    const job = m ? this.jobs.get(m[1]) : undefined;
+    if (!m || !job) return { status: 404, error: "not found" };
+    if (req.method === "DELETE") {
+      job.cancelled = true;
+      return { body: { id: m[1], status: "cancelled" } };
+    }
+    if (m[2]) return job.cancelled ? { status: 409, error: "job was cancelled" } : cannedOutput(job.payload?.format);
+    return { body: { id: m[1], status: job.cancelled ? "cancelled" : "completed", progress: 1 } };
+  }
+
+  private async respond(res: ServerResponse, response: MockResponse): Promise<void> {
+    if (response.delay) await this.sleep(response.delay);
+    if (response.drop) {
+      res.socket?.destroy();
+      return;
+    }
+    if (response.hang || res.destroyed) return;
+
+    let body: Uint8Array;
+    let contentType = response.contentType;
+    if (response.error !== undefined && response.body === undefined) {
+      body = new TextEncoder().encode(JSON.stringify({ error: response.error }));
+      contentType ??= "application/json";
+    } else if (typeof response.body === "string") {
+      body = new TextEncoder().encode(response.body);
+      contentType ??= "text/plain";
+    } else if (response.body instanceof Uint8Array) {
+      body = response.body;
+      contentType ??= "application/octet-stream";
+    } else if (response.body !== undefined) {
+      body = new TextEncoder().encode(JSON.stringify(response.body));
+      contentType ??= "application/json";
+    } else {
+      body = new Uint8Array(0);
+    }
+
+    const headers: Record<string, string | string[]> = { "Content-Length": String(body.length), ...response.headers };
+    if (contentType) headers["Content-Type"] = contentType;
+    if (response.warnings?.length) headers["X-Forge-Warning"] = response.warnings.map(encodeWarning);
+    res.writeHead(response.status ?? (response.error !== undefined ? 500 : 200), headers);
+
+    if (!response.chunkDelay) {
+      res.end(body);
+      return;
+    }
+    const size = Math.max(1, response.chunkSize ?? 1);
+    for (let i = 0; i < body.length; i += size) {
+      if (i > 0) await this.sleep(response.chunkDelay);
+      if (res.destroyed) return;
+      res.write(body.subarray(i, i + size));
+    }
+    res.end();
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, ms);
+      this.timers.add(timer);
+    });
+  }
+}
+
+/** Run `fn` against a fresh MockForgeServer and close it afterwards. */
+export async function withMockServer<T>(fn: (server: MockForgeServer) => Promise<T>): Promise<T> {
+  const server = await MockForgeServer.start();
+  try {
+    return await fn(server);
+  } finally {
+    await server.close();
+  }
+}
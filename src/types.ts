@@ -13,6 +13,16 @@ export type DitherMethod = "none" | "floyd-steinberg" | "atkinson" | "ordered";
 /** Watermark layer position. */
 export type WatermarkLayer = "over" | "under";
 
+/** Where a watermark is placed on the page. */
+export type WatermarkPosition =
+  | "center"
+  | "top"
+  | "bottom"
+  | "top-left"
+  | "top-right"
+  | "bottom-left"
+  | "bottom-right";
+
 /** PDF standard compliance level. */
 export enum PdfStandard {
   None = "none",
@@ -72,11 +82,28 @@ export interface SignatureOptions {
   timestamp_url?: string;
 }
 
+/** An operation allowed on an encrypted PDF opened without the owner password. */
+export enum PdfPermission {
+  Print = "print",
+  PrintHighQuality = "print-high",
+  Modify = "modify",
+  Copy = "copy",
+  Annotate = "annotate",
+  FillForms = "fill-forms",
+  ExtractAccessibility = "extract-accessibility",
+  Assemble = "assemble",
+}
+
+/** PDF encryption algorithm. */
+export type EncryptionAlgorithm = "aes-128" | "aes-256";
+
 /** Options for encrypting a PDF document. */
 export interface EncryptionOptions {
   user_password?: string;
   owner_password?: string;
+  /** Comma-separated `PdfPermission` values; empty grants nothing. */
   permissions?: string;
+  algorithm?: EncryptionAlgorithm;
 }
 
 /** An embedded file attachment in a PDF document. */
@@ -88,6 +115,27 @@ export interface EmbeddedFilePayload {
   relationship?: EmbedRelationship;
 }
 
+/** A local file (stylesheet, image, font, ...) referenced by relative URL from the HTML. */
+export interface HtmlAsset {
+  data: Uint8Array;
+  /** MIME type; guessed from the file extension when omitted. */
+  mimeType?: string;
+}
+
+/** An asset bundled with an HTML render request. */
+export interface AssetPayload {
+  /** Path relative to the document, as referenced in the HTML. */
+  path: string;
+  data: string; // base64-encoded
+  mime_type: string;
+}
+
+/**
+ * Error correction: "L", "M", "Q" or "H" for QR codes (recovering roughly 7%,
+ * 15%, 25% and 30% of the symbol), or a percentage (5-95) for Aztec codes.
+ */
+export type ErrorCorrection = "L" | "M" | "Q" | "H" | number;
+
 /** A barcode to render on one or more PDF pages. */
 export interface BarcodePayload {
   type: string;
@@ -101,6 +149,133 @@ export interface BarcodePayload {
   background?: string;
   draw_background?: boolean;
   pages?: string;
+  error_correction?: ErrorCorrection;
+  /**
+   * `data` is a GS1 element string from `gs1()`; the server encodes each
+   * "(AI)" as FNC1 and the AI digits, producing GS1-128, GS1 DataMatrix or GS1 QR.
+   */
+  gs1?: boolean;
+}
+
+/**
+ * Binary data for attachments, certificates and watermark images: a base64
+ * string, bytes (`Uint8Array`, Node's `Buffer`, `ArrayBuffer`), a `Blob`,
+ * or `{ path }` to read a file (Node.js, Deno and Bun only).
+ */
+export type BinaryInput = string | ArrayBuffer | ArrayBufferView | Blob | { path: string };
+
+/** Options for `pdfAddWatermark()`: a text or image watermark. */
+export interface WatermarkOptions {
+  text?: string;
+  /** PNG/JPEG image. */
+  image?: BinaryInput;
+  /** Opacity (0.0 to 1.0). */
+  opacity?: number;
+  /** Rotation in degrees. */
+  rotation?: number;
+  /** Text color as hex string. */
+  color?: string;
+  /** Font size in points. */
+  fontSize?: number;
+  /** Image scale factor. */
+  scale?: number;
+  layer?: WatermarkLayer;
+  /** Restrict to specific pages (e.g. "2-99"). */
+  pages?: string;
+  /** Placement on the page (default: "center"). */
+  position?: WatermarkPosition;
+}
+
+/** A watermark in the wire format. */
+export interface WatermarkPayload {
+  text?: string;
+  image_data?: string;
+  opacity?: number;
+  rotation?: number;
+  color?: string;
+  font_size?: number;
+  scale?: number;
+  layer?: WatermarkLayer;
+  pages?: string;
+  position?: WatermarkPosition;
+}
+
+/** ZUGFeRD / Factur-X profile of an e-invoice. */
+export type EInvoiceProfile = "minimum" | "basic" | "en16931" | "extended" | "xrechnung";
+
+/** E-invoice standard: Factur-X (ZUGFeRD 2.1+) or ZUGFeRD 2.0 naming. */
+export type EInvoiceFlavor = "factur-x" | "zugferd";
+
+/** Options for `pdfEInvoice()`. */
+export interface EInvoiceOptions {
+  profile: EInvoiceProfile;
+  /** Default: "factur-x". */
+  flavor?: EInvoiceFlavor;
+}
+
+/** E-invoice XMP metadata in the wire format. */
+export interface EInvoicePayload {
+  flavor: EInvoiceFlavor;
+  profile: EInvoiceProfile;
+  document_type: string;
+  document_file_name: string;
+  version: string;
+  conformance_level: string;
+}
+
+/** Pages a header or footer variant applies to. */
+export type PageVariant = "all" | "first" | "odd" | "even";
+
+/** Options for `pdfHeader()` and `pdfFooter()`. */
+export interface HeaderFooterOptions {
+  /** Height of the header/footer area in mm. */
+  height?: number;
+  /** Restrict to specific pages (e.g. "1,3-5"). */
+  pages?: string;
+  /** Apply only to the first, odd or even pages (default: "all"). */
+  variant?: PageVariant;
+}
+
+/**
+ * A PDF header or footer. The HTML may contain the tokens `{page}`,
+ * `{pages}`, `{title}` and `{date}`, replaced by the server on each page.
+ */
+export interface HeaderFooterPayload {
+  html: string;
+  height?: number;
+  pages?: string;
+  variant?: PageVariant;
+}
+
+/** Options for `ForgeClient.renderBarcode()`. */
+export interface BarcodeImageOptions extends SendOptions {
+  /** Image format (default: "png"). */
+  format?: "png" | "svg";
+  /** Image width in pixels; 2D codes are square. */
+  size?: number;
+  /** Bar color as hex string (default: "#000000"). */
+  foreground?: string;
+  /** Background color as hex string (default: "#ffffff"). */
+  background?: string;
+  /** Quiet zone around the symbol, in modules. */
+  quietZone?: number;
+  /** QR level or Aztec percentage; see `ErrorCorrection`. */
+  errorCorrection?: ErrorCorrection;
+  /** Encode `data` from `gs1()` as GS1-128, GS1 DataMatrix or GS1 QR. */
+  gs1?: boolean;
+}
+
+/** Request payload for the standalone barcode endpoint. */
+export interface BarcodeImagePayload {
+  type: string;
+  data: string;
+  format: "png" | "svg";
+  size?: number;
+  foreground?: string;
+  background?: string;
+  quiet_zone?: number;
+  error_correction?: ErrorCorrection;
+  gs1?: boolean;
 }
 
 /** Built-in color palette presets. */
@@ -113,6 +288,7 @@ export type Palette = PalettePreset | string[];
 export interface RenderPayload {
   html?: string;
   url?: string;
+  assets?: AssetPayload[];
   format: OutputFormat;
   width?: number;
   height?: number;
@@ -138,18 +314,12 @@ export interface RenderPayload {
     page_numbers?: boolean;
     standard?: PdfStandard;
     embedded_files?: EmbeddedFilePayload[];
-    watermark?: {
-      text?: string;
-      image_data?: string;
-      opacity?: number;
-      rotation?: number;
-      color?: string;
-      font_size?: number;
-      scale?: number;
-      layer?: WatermarkLayer;
-      pages?: string;
-    };
+    einvoice?: EInvoicePayload;
+    watermark?: WatermarkPayload;
+    watermarks?: WatermarkPayload[];
     barcodes?: BarcodePayload[];
+    headers?: HeaderFooterPayload[];
+    footers?: HeaderFooterPayload[];
     mode?: PdfMode;
     signature?: SignatureOptions;
     encryption?: EncryptionOptions;
@@ -159,15 +329,237 @@ export interface RenderPayload {
   };
 }
 
+/**
+ * A reusable, JSON-serializable set of builder options. Keys match the
+ * `RenderRequestBuilder` method names; list keys hold wire-format entries.
+ */
+export interface RenderPreset {
+  format?: OutputFormat;
+  width?: number;
+  height?: number;
+  paper?: string;
+  orientation?: Orientation;
+  margins?: string;
+  flow?: Flow;
+  density?: number;
+  background?: string;
+  timeout?: number;
+  colors?: number;
+  palette?: Palette;
+  dither?: DitherMethod;
+  pdfTitle?: string;
+  pdfAuthor?: string;
+  pdfSubject?: string;
+  pdfKeywords?: string;
+  pdfCreator?: string;
+  pdfBookmarks?: boolean;
+  pdfPageNumbers?: boolean;
+  pdfWatermarkText?: string;
+  pdfWatermarkImage?: string;
+  pdfWatermarkOpacity?: number;
+  pdfWatermarkRotation?: number;
+  pdfWatermarkColor?: string;
+  pdfWatermarkFontSize?: number;
+  pdfWatermarkScale?: number;
+  pdfWatermarkLayer?: WatermarkLayer;
+  pdfWatermarkPages?: string;
+  pdfStandard?: PdfStandard;
+  pdfMode?: PdfMode;
+  pdfSignCertificate?: string;
+  pdfSignPassword?: string;
+  pdfSignName?: string;
+  pdfSignReason?: string;
+  pdfSignLocation?: string;
+  pdfSignTimestampUrl?: string;
+  pdfUserPassword?: string;
+  pdfOwnerPassword?: string;
+  pdfPermissions?: PdfPermission[] | string;
+  pdfEncryptionAlgorithm?: EncryptionAlgorithm;
+  pdfAccessibility?: AccessibilityLevel;
+  pdfLinearize?: boolean;
+  pdfLang?: string;
+  pdfEInvoiceMetadata?: EInvoicePayload;
+  /** Barcodes; appended to those of earlier layers. */
+  pdfBarcodes?: BarcodePayload[];
+  /** Embedded files; appended to those of earlier layers. */
+  pdfEmbeddedFiles?: EmbeddedFilePayload[];
+  /** Watermarks added with `pdfAddWatermark()`; appended to those of earlier layers. */
+  pdfWatermarks?: WatermarkPayload[];
+  /** Headers; appended to those of earlier layers. */
+  pdfHeaders?: HeaderFooterPayload[];
+  /** Footers; appended to those of earlier layers. */
+  pdfFooters?: HeaderFooterPayload[];
+}
+
+/** A problem found by client-side payload validation. */
+export interface ValidationIssue {
+  /** Payload field path, e.g. "quantize.colors" or "pdf.barcodes[1].pages". */
+  path: string;
+  /** Short rule identifier: "range", "format", "conflict", "required" or "unknown". */
+  rule: string;
+  /** Human-readable description. */
+  message: string;
+}
+
+/** Lifecycle state of an asynchronous render job. */
+export type JobState = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+/** Status of an asynchronous render job. */
+export interface JobStatus {
+  id: string;
+  state: JobState;
+  /** Completion fraction (0.0-1.0), when the server reports it. */
+  progress?: number;
+  /** Failure reason for failed jobs. */
+  error?: string;
+}
+
+/** Server job status response body. */
+export interface JobStatusResponse {
+  id: string;
+  status: JobState;
+  progress?: number;
+  error?: string;
+}
+
+/** Features a server supports, from `GET /info`. An omitted list means the server does not say. */
+export interface ServerCapabilities {
+  /** Output formats, e.g. "pdf", "png", "qoi". */
+  formats?: string[];
+  /** Named paper sizes, e.g. "a4", "letter". */
+  paperSizes?: string[];
+  pdfModes?: string[];
+  pdfStandards?: string[];
+  /** Accessibility levels, e.g. "pdf/ua-1". */
+  accessibility?: string[];
+  /**
+   * PDF features: "signing", "encryption", "watermarks", "barcodes",
+   * "embedded_files", "headers_footers", "einvoice", "linearize".
+   */
+  pdfFeatures?: string[];
+  barcodeTypes?: string[];
+}
+
+/** Request limits advertised by a server. */
+export interface ServerLimits {
+  /** Maximum JSON request body size in bytes. */
+  maxBodyBytes?: number;
+  /** Maximum render timeout in seconds. */
+  maxTimeout?: number;
+  /** Maximum viewport width in pixels. */
+  maxWidth?: number;
+  /** Maximum viewport height in pixels. */
+  maxHeight?: number;
+}
+
+/** Server version, capabilities and limits. */
+export interface ServerInfo {
+  version: string;
+  /** Major version of the HTTP API, when the server reports it. */
+  apiVersion?: number;
+  capabilities: ServerCapabilities;
+  limits: ServerLimits;
+}
+
+/** Server info response body. */
+export interface ServerInfoResponse {
+  version: string;
+  api_version?: number;
+  formats?: string[];
+  paper_sizes?: string[];
+  pdf?: {
+    modes?: string[];
+    standards?: string[];
+    accessibility?: string[];
+    features?: string[];
+  };
+  barcode_types?: string[];
+  limits?: {
+    max_body_bytes?: number;
+    max_timeout?: number;
+    max_width?: number;
+    max_height?: number;
+  };
+}
+
+/** Options for `ForgeClient.info()` and `capabilities()`. */
+export interface InfoOptions extends SendOptions {
+  /** Fetch again instead of using the cached result. */
+  refresh?: boolean;
+}
+
+/** Result of `ForgeClient.healthDetails()`. */
+export interface HealthStatus {
+  healthy: boolean;
+  /** Round-trip time of the health request in milliseconds. */
+  latency: number;
+  /** Server version, when reported. */
+  version?: string;
+  /** Renders waiting for a worker, when reported. */
+  queueDepth?: number;
+  /** Why the check failed. */
+  error?: string;
+}
+
+/** Server health response body. */
+export interface HealthResponse {
+  status?: string;
+  version?: string;
+  queue_depth?: number;
+}
+
 /** Server error response body. */
 export interface ErrorResponse {
   error: string;
 }
 
+/** Source position a warning refers to. */
+export interface WarningLocation {
+  line: number;
+  column?: number;
+  /** Stylesheet URL or "inline". */
+  source?: string;
+}
+
+/** A CSS compatibility warning reported by the Forge server. */
+export interface ForgeWarning {
+  /** Machine-readable code (e.g. "flex-wrap-unsupported"), when provided. */
+  code?: string;
+  message: string;
+  /** CSS property the warning is about. */
+  property?: string;
+  /** CSS selector of the affected rule. */
+  selector?: string;
+  location?: WarningLocation;
+}
+
 /** Response from a render request, including any CSS compatibility warnings. */
 export interface RenderResponse {
   /** The rendered output bytes (PDF, PNG, etc.). */
   data: Uint8Array;
   /** CSS compatibility warnings from the Forge server. */
-  warnings: string[];
+  warnings: ForgeWarning[];
+}
+
+/** Queue position of a render request; higher priorities leave the queue first. */
+export type RequestPriority = "high" | "normal" | "low";
+
+/** Per-request options for `send()`, `sendWithWarnings()`, `sendStream()` and `submit()`. */
+export interface SendOptions {
+  /** Cancels the request, including reading or streaming the response body. */
+  signal?: AbortSignal;
+  /** HTTP timeout in milliseconds for this request, overriding the client's. */
+  timeout?: number;
+  /** Position in the client's render queue (default: "normal"); see `maxConcurrent`. */
+  priority?: RequestPriority;
+}
+
+/** Streaming response from a render request. */
+export interface RenderStream {
+  /** The rendered output as a byte stream. */
+  body: ReadableStream<Uint8Array>;
+  /** Value of the `Content-Length` header, if the server sent one. */
+  contentLength?: number;
+  /** CSS compatibility warnings from the Forge server. */
+  warnings: ForgeWarning[];
 }
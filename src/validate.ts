@@ -0,0 +1,193 @@
+import { missingAssets } from "./assets.js";
+import { validateBarcode } from "./barcode.js";
+import { fromBase64 } from "./encoding.js";
+import { PdfPermission, PdfStandard } from "./types.js";
+import type {
+  BarcodeImagePayload,
+  HtmlAsset,
+  RenderPayload,
+  ValidationIssue,
+  WatermarkPayload,
+} from "./types.js";
+
+const MARGIN_PRESETS = new Set(["default", "none", "narrow"]);
+const PALETTE_PRESETS = new Set(["auto", "bw", "grayscale", "eink"]);
+const PERMISSIONS = new Set<string>(Object.values(PdfPermission));
+const ENCRYPTION_ALGORITHMS = new Set(["aes-128", "aes-256"]);
+const PAGE_TOKENS = new Set(["page", "pages", "title", "date"]);
+
+/** @internal — "#rgb" or "#rrggbb". */
+export function isHexColor(value: string): boolean {
+  return /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.test(value);
+}
+
+/** @internal — comma-separated 1-based pages or ascending ranges, e.g. "1,3-5". */
+export function isPageRange(value: string): boolean {
+  return value.split(",").every((part) => {
+    const m = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    if (!m) return false;
+    const start = Number(m[1]);
+    const end = m[2] === undefined ? start : Number(m[2]);
+    return start >= 1 && end >= start;
+  });
+}
+
+/** @internal — preset name or "T,R,B,L" in mm. */
+function isMargins(value: string): boolean {
+  if (MARGIN_PRESETS.has(value)) return true;
+  const parts = value.split(",");
+  return parts.length === 4 && parts.every((p) => /^\s*\d+(?:\.\d+)?\s*$/.test(p));
+}
+
+/** @internal — check a payload for problems the server would reject. */
+export function validatePayload(payload: RenderPayload): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const issue = (path: string, rule: string, message: string) =>
+    issues.push({ path, rule, message });
+
+  const decorations = [...(payload.pdf?.headers ?? []), ...(payload.pdf?.footers ?? [])];
+  if (payload.assets?.length) {
+    const assets: Record<string, HtmlAsset> = {};
+    for (const a of payload.assets) assets[a.path] = { data: fromBase64(a.data), mimeType: a.mime_type };
+    const html = [payload.html ?? "", ...decorations.map((d) => d.html)].join("\n");
+    for (const ref of missingAssets(html, assets)) {
+      issue("assets", "required", `"${ref}" is referenced but not attached`);
+    }
+  }
+
+  if (payload.margins !== undefined && !isMargins(payload.margins)) {
+    issue("margins", "format", `expected a preset (default, none, narrow) or "T,R,B,L" in mm, got "${payload.margins}"`);
+  }
+
+  const q = payload.quantize;
+  if (q?.colors !== undefined && !(Number.isInteger(q.colors) && q.colors >= 2 && q.colors <= 256)) {
+    issue("quantize.colors", "range", `must be an integer between 2 and 256, got ${q.colors}`);
+  }
+  if (Array.isArray(q?.palette)) {
+    q.palette.forEach((color, i) => {
+      if (!isHexColor(color)) issue(`quantize.palette[${i}]`, "format", `"${color}" is not a hex color`);
+    });
+  } else if (q?.palette !== undefined && !PALETTE_PRESETS.has(q.palette)) {
+    issue("quantize.palette", "format", `unknown palette preset "${q.palette}"`);
+  }
+
+  const pdf = payload.pdf;
+  if (!pdf) return issues;
+
+  const checkWatermark = (wm: WatermarkPayload, path: string) => {
+    if (wm.opacity !== undefined && !(wm.opacity >= 0 && wm.opacity <= 1)) {
+      issue(`${path}.opacity`, "range", `must be between 0 and 1, got ${wm.opacity}`);
+    }
+    if (wm.color !== undefined && !isHexColor(wm.color)) {
+      issue(`${path}.color`, "format", `"${wm.color}" is not a hex color`);
+    }
+    if (wm.pages !== undefined && !isPageRange(wm.pages)) {
+      issue(`${path}.pages`, "format", `"${wm.pages}" is not a valid page range`);
+    }
+  };
+  if (pdf.watermark) checkWatermark(pdf.watermark, "pdf.watermark");
+  pdf.watermarks?.forEach((wm, i) => {
+    if (wm.text === undefined && wm.image_data === undefined) {
+      issue(`pdf.watermarks[${i}]`, "required", "needs text or an image");
+    }
+    checkWatermark(wm, `pdf.watermarks[${i}]`);
+  });
+
+  pdf.barcodes?.forEach((bc, i) => {
+    for (const bi of validateBarcode(bc.type, bc.data, bc.error_correction, bc.gs1)) {
+      issue(`pdf.barcodes[${i}].${bi.path}`, bi.rule, bi.message);
+    }
+    if (bc.pages !== undefined && !isPageRange(bc.pages)) {
+      issue(`pdf.barcodes[${i}].pages`, "format", `"${bc.pages}" is not a valid page range`);
+    }
+    if (bc.foreground !== undefined && !isHexColor(bc.foreground)) {
+      issue(`pdf.barcodes[${i}].foreground`, "format", `"${bc.foreground}" is not a hex color`);
+    }
+    if (bc.background !== undefined && !isHexColor(bc.background)) {
+      issue(`pdf.barcodes[${i}].background`, "format", `"${bc.background}" is not a hex color`);
+    }
+  });
+
+  for (const kind of ["headers", "footers"] as const) {
+    pdf[kind]?.forEach((hf, i) => {
+      const path = `pdf.${kind}[${i}]`;
+      if (hf.height !== undefined && !(Number.isFinite(hf.height) && hf.height > 0)) {
+        issue(`${path}.height`, "range", `must be a positive number of mm, got ${hf.height}`);
+      }
+      if (hf.pages !== undefined && !isPageRange(hf.pages)) {
+        issue(`${path}.pages`, "format", `"${hf.pages}" is not a valid page range`);
+      }
+      if (hf.variant === "first" && hf.pages !== undefined) {
+        issue(`${path}.pages`, "conflict", `the "first" variant cannot be combined with pages`);
+      }
+      for (const [, token] of hf.html.matchAll(/\{([a-z_]+)\}/gi)) {
+        if (!PAGE_TOKENS.has(token)) {
+          issue(`${path}.html`, "unknown", `unknown token "{${token}}"; expected {page}, {pages}, {title} or {date}`);
+        }
+      }
+    });
+  }
+  if (pdf.page_numbers && pdf.footers?.length) {
+    issue("pdf.page_numbers", "conflict", "page numbers replace custom footers; use {page} in pdfFooter() instead");
+  }
+
+  const enc = pdf.encryption;
+  if (enc) {
+    const granted = enc.permissions?.split(",").map((p) => p.trim()).filter((p) => p !== "");
+    for (const p of granted ?? []) {
+      if (!PERMISSIONS.has(p)) issue("pdf.encryption.permissions", "unknown", `unknown permission "${p}"`);
+    }
+    if (enc.permissions !== undefined && !enc.owner_password) {
+      issue("pdf.encryption.owner_password", "required", "permissions are only enforced with an owner password");
+    }
+    if (enc.owner_password && (granted === undefined || [...PERMISSIONS].every((p) => granted.includes(p)))) {
+      issue("pdf.encryption.permissions", "required", "an owner password without restricted permissions has no effect");
+    }
+    if (enc.algorithm !== undefined && !ENCRYPTION_ALGORITHMS.has(enc.algorithm)) {
+      issue("pdf.encryption.algorithm", "format", `expected "aes-128" or "aes-256", got "${enc.algorithm}"`);
+    }
+    if (enc.algorithm !== undefined && !enc.user_password && !enc.owner_password) {
+      issue("pdf.encryption", "required", "encryption needs a user or owner password");
+    }
+  }
+
+  if (pdf.standard === PdfStandard.A2B && (pdf.embedded_files?.length ?? 0) > 0) {
+    issue("pdf.embedded_files", "conflict", "PDF/A-2b does not allow embedded files; use PDF/A-3b");
+  }
+  if (pdf.einvoice) {
+    if (pdf.standard !== PdfStandard.A3B) {
+      issue("pdf.standard", "conflict", "ZUGFeRD / Factur-X invoices must be PDF/A-3b");
+    }
+    if (!pdf.embedded_files?.some((f) => f.path === pdf.einvoice?.document_file_name)) {
+      issue("pdf.embedded_files", "required", `the invoice XML must be embedded as "${pdf.einvoice.document_file_name}"`);
+    }
+  }
+  if (pdf.accessibility === "pdf/ua-1" && !pdf.document_lang) {
+    issue("pdf.document_lang", "required", "PDF/UA-1 requires a document language (pdfLang)");
+  }
+
+  return issues;
+}
+
+/** @internal — check a standalone barcode image request. */
+export function validateBarcodeImage(payload: BarcodeImagePayload): ValidationIssue[] {
+  const issues = validateBarcode(payload.type, payload.data, payload.error_correction, payload.gs1);
+  const issue = (path: string, rule: string, message: string) => issues.push({ path, rule, message });
+
+  if (payload.format !== "png" && payload.format !== "svg") {
+    issue("format", "format", `expected "png" or "svg", got "${payload.format}"`);
+  }
+  if (payload.size !== undefined && !(Number.isInteger(payload.size) && payload.size > 0)) {
+    issue("size", "range", `must be a positive integer, got ${payload.size}`);
+  }
+  if (payload.quiet_zone !== undefined && !(Number.isInteger(payload.quiet_zone) && payload.quiet_zone >= 0)) {
+    issue("quiet_zone", "range", `must be a non-negative integer, got ${payload.quiet_zone}`);
+  }
+  if (payload.foreground !== undefined && !isHexColor(payload.foreground)) {
+    issue("foreground", "format", `"${payload.foreground}" is not a hex color`);
+  }
+  if (payload.background !== undefined && !isHexColor(payload.background)) {
+    issue("background", "format", `"${payload.background}" is not a hex color`);
+  }
+  return issues;
+}
@@ -0,0 +1,97 @@
+import type { ForgeWarning } from "./types.js";
+
+/** Wire shape of a JSON-encoded warning. */
+interface WarningJson {
+  code?: string;
+  message?: string;
+  property?: string;
+  selector?: string;
+  line?: number;
+  column?: number;
+  source?: string;
+}
+
+/** A JSON object or array, as opposed to plain text such as "[code] a[href unsupported". */
+const JSON_START = /^(?:\{|\[\s*[{["\]])/;
+
+/**
+ * Split a combined header value on commas that separate values, skipping
+ * commas inside double-quoted strings and JSON objects/arrays. Brackets only
+ * nest inside values that start as JSON, so an unbalanced "[" in plain text
+ * doesn't swallow the warnings after it.
+ */
+function splitHeaderValues(raw: string): string[] {
+  const values: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  // Decided at the first non-blank character of each value.
+  let json: boolean | undefined;
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    if (json === undefined && ch.trim() !== "") json = JSON_START.test(raw.slice(i));
+    if (quoted) {
+      if (ch === "\\") i++;
+      else if (ch === '"') quoted = false;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (json && (ch === "{" || ch === "[")) {
+      depth++;
+    } else if (json && (ch === "}" || ch === "]") && depth > 0) {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      values.push(raw.slice(start, i));
+      start = i + 1;
+      json = undefined;
+    }
+  }
+  values.push(raw.slice(start));
+  return values.map((v) => v.trim()).filter((v) => v.length > 0);
+}
+
+function fromJson(w: WarningJson): ForgeWarning {
+  const warning: ForgeWarning = { message: w.message ?? "" };
+  if (w.code !== undefined) warning.code = w.code;
+  if (w.property !== undefined) warning.property = w.property;
+  if (w.selector !== undefined) warning.selector = w.selector;
+  if (w.line !== undefined) {
+    warning.location = { line: w.line };
+    if (w.column !== undefined) warning.location.column = w.column;
+    if (w.source !== undefined) warning.location.source = w.source;
+  }
+  return warning;
+}
+
+/** Parse plain text, with an optional leading "[code]". */
+function fromText(text: string): ForgeWarning {
+  const m = /^\[([^\]\s]+)\]\s*(.*)$/s.exec(text);
+  return m ? { code: m[1], message: m[2] } : { message: text };
+}
+
+/** @internal — parse one header value: JSON, a quoted string, or bare text. */
+function parseValue(value: string): ForgeWarning[] {
+  if (value.startsWith("{") || value.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(value) as WarningJson | WarningJson[];
+      return (Array.isArray(parsed) ? parsed : [parsed]).map(fromJson);
+    } catch {
+      // Not JSON after all (e.g. "[code] message"); fall through.
+    }
+  }
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return [fromText(value.slice(1, -1).replace(/\\(.)/g, "$1"))];
+  }
+  return [fromText(value)];
+}
+
+/**
+ * @internal — extract CSS compatibility warnings from `X-Forge-Warning`.
+ *
+ * The Fetch API coalesces repeated headers into one comma-joined value, so
+ * values are split on commas outside quoted strings and JSON. Servers should
+ * quote or JSON-encode messages that contain commas.
+ */
+export function parseWarnings(headers: Headers): ForgeWarning[] {
+  const raw = headers.get("X-Forge-Warning");
+  return raw ? splitHeaderValues(raw).flatMap(parseValue) : [];
+}